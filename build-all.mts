@@ -1,35 +1,117 @@
-import { build, type InlineConfig, type Plugin } from "vite";
+import {
+  build,
+  type InlineConfig,
+  type LogLevel,
+  type Plugin,
+  type Rollup,
+} from "vite";
 import react from "@vitejs/plugin-react";
 import fg from "fast-glob";
 import path from "path";
 import fs from "fs";
 import crypto from "crypto";
-import pkg from "./package.json" with { type: "json" };
+import os from "os";
+import { execSync, fork, type ChildProcess } from "child_process";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
 import tailwindcss from "@tailwindcss/vite";
+import { discoverWidgets } from "./widget-metadata.mts";
 
-const entries = fg.sync("src/**/index.{tsx,jsx}");
 const outDir = "assets";
+const manifestPath = path.join(outDir, "manifest.json");
 
 const PER_ENTRY_CSS_GLOB = "**/*.{css,pcss,scss,sass}";
 const PER_ENTRY_CSS_IGNORE = "**/*.module.*".split(",").map((s) => s.trim());
 const GLOBAL_CSS_LIST = [path.resolve("src/index.css")];
 
-const targets: string[] = [
-  "todo",
-  "solar-system",
-  "pizzaz",
-  "pizzaz-carousel",
-  "pizzaz-list",
-  "pizzaz-albums",
-  "pizzaz-shop",
-  "mixed-auth-search",
-  "mixed-auth-past-orders",
-  "kitchen-sink-lite",
-  "shopping-cart",
-  "hotel-availability",
-  "hotel-availability-list",
-];
-const builtNames: string[] = [];
+const { values: options } = parseArgs({
+  options: {
+    // Embeds the bundled JS and CSS in each HTML file, so widgets render
+    // without a static asset host. INLINE_ASSETS=1 does the same.
+    inline: { type: "boolean", default: false },
+    // Comma-separated widget names, e.g. `--only pizzaz,todo`.
+    only: { type: "string" },
+    // Rebuilds the widgets affected by each change under src/.
+    watch: { type: "boolean", default: false },
+    // Builds widgets in a pool of child processes (`--jobs` of them).
+    parallel: { type: "boolean", default: false },
+    jobs: { type: "string" },
+    // Internal: runs this script as a pool worker.
+    worker: { type: "boolean", default: false },
+  },
+});
+
+const inlineAssets = options.inline || process.env.INLINE_ASSETS === "1";
+
+type WidgetEntry = { name: string; file: string };
+
+type WorkerResponse =
+  | { name: string; moduleIds: string[] }
+  | { name: string; error: string };
+
+// Every `src/<widget>/` with a widget.json is built.
+function discoverEntries(): WidgetEntry[] {
+  return discoverWidgets().map(({ name, entry }) => ({ name, file: entry }));
+}
+
+function selectEntries(entries: WidgetEntry[], only: string | undefined) {
+  if (!only) {
+    return entries;
+  }
+
+  const names = only
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const unknown = names.filter(
+    (name) => !entries.some((entry) => entry.name === name)
+  );
+  if (unknown.length) {
+    const available = entries.map((entry) => entry.name).sort().join(", ");
+    throw new Error(
+      `Unknown widget(s) in --only: ${unknown.join(", ")}. Available widgets: ${available}`
+    );
+  }
+
+  return entries.filter((entry) => names.includes(entry.name));
+}
+
+type ManifestFile = {
+  path: string;
+  hash: string;
+  size: number;
+};
+
+type BuildManifest = {
+  buildTime: string;
+  gitSha: string | null;
+  baseUrl: string;
+  inline: boolean;
+  widgets: Record<
+    string,
+    { html: ManifestFile; js: ManifestFile; css: ManifestFile | null }
+  >;
+};
+
+function describeFile(fileName: string): ManifestFile {
+  const contents = fs.readFileSync(path.join(outDir, fileName));
+  return {
+    path: fileName,
+    hash: crypto.createHash("sha256").update(contents).digest("hex"),
+    size: contents.byteLength,
+  };
+}
+
+function readGitSha(): string | null {
+  try {
+    return execSync("git rev-parse HEAD", {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return null;
+  }
+}
 
 function wrapEntryPlugin(
   virtualId: string,
@@ -63,14 +145,15 @@ function wrapEntryPlugin(
   };
 }
 
-fs.rmSync(outDir, { recursive: true, force: true });
-
-for (const file of entries) {
-  const name = path.basename(path.dirname(file));
-  if (targets.length && !targets.includes(name)) {
-    continue;
-  }
-
+/**
+ * Runs the Vite build for one widget, writing `<name>.js` (and `<name>.css`)
+ * to outDir. Returns the source files the bundle was built from, which watch
+ * mode uses to decide what a change affects.
+ */
+async function buildWidget(
+  { name, file }: WidgetEntry,
+  logLevel: LogLevel = "info"
+): Promise<string[]> {
   const entryAbs = path.resolve(file);
   const entryDir = path.dirname(entryAbs);
 
@@ -93,6 +176,7 @@ for (const file of entries) {
   const virtualId = `\0virtual-entry:${entryAbs}`;
 
   const createConfig = (): InlineConfig => ({
+    logLevel,
     plugins: [
       wrapEntryPlugin(virtualId, entryAbs, cssToInclude),
       tailwindcss(),
@@ -136,61 +220,421 @@ for (const file of entries) {
     },
   });
 
-  console.group(`Building ${name} (react)`);
-  await build(createConfig());
-  console.groupEnd();
-  builtNames.push(name);
-  console.log(`Built ${name}`);
+  const result = (await build(createConfig())) as Rollup.RollupOutput;
+  const moduleIds = result.output.flatMap((chunk) =>
+    chunk.type === "chunk" ? chunk.moduleIds : []
+  );
+
+  return [
+    ...new Set(
+      moduleIds
+        .filter((id) => !id.startsWith("\0") && !id.includes("/node_modules/"))
+        .map((id) => id.split("?")[0])
+    ),
+    ...cssToInclude,
+  ];
 }
 
-const outputs = fs
-  .readdirSync("assets")
-  .filter((f) => f.endsWith(".js") || f.endsWith(".css"))
-  .map((f) => path.join("assets", f))
-  .filter((p) => fs.existsSync(p));
+/**
+ * Builds widgets in forked copies of this script (`--worker`), so several
+ * Vite builds run at once. Each worker takes one widget at a time.
+ */
+function createWorkerPool(size: number) {
+  const script = fileURLToPath(import.meta.url);
+  type Task = {
+    entry: WidgetEntry;
+    settle: (response: WorkerResponse) => void;
+  };
+  const idle: ChildProcess[] = [];
+  const busy = new Map<ChildProcess, Task>();
+  const queue: Task[] = [];
 
-const h = crypto
-  .createHash("sha256")
-  .update(pkg.version, "utf8")
-  .digest("hex")
-  .slice(0, 4);
+  const dispatch = () => {
+    while (idle.length && queue.length) {
+      const worker = idle.pop()!;
+      const task = queue.shift()!;
+      busy.set(worker, task);
+      worker.send(task.entry);
+    }
+  };
 
-console.group("Hashing outputs");
-for (const out of outputs) {
-  const dir = path.dirname(out);
-  const ext = path.extname(out);
-  const base = path.basename(out, ext);
-  const newName = path.join(dir, `${base}-${h}${ext}`);
+  const spawn = () => {
+    const worker = fork(script, ["--worker"]);
 
-  fs.renameSync(out, newName);
-  console.log(`${out} -> ${newName}`);
+    worker.on("message", (response: WorkerResponse) => {
+      const task = busy.get(worker);
+      busy.delete(worker);
+      idle.push(worker);
+      task?.settle(response);
+      dispatch();
+    });
+
+    worker.on("exit", (code) => {
+      const task = busy.get(worker);
+      busy.delete(worker);
+      if (idle.includes(worker)) {
+        idle.splice(idle.indexOf(worker), 1);
+      }
+      if (task) {
+        task.settle({
+          name: task.entry.name,
+          error: `Build worker exited with code ${code}`,
+        });
+        // Replace the crashed worker so the pool keeps its size.
+        idle.push(spawn());
+        dispatch();
+      }
+    });
+
+    return worker;
+  };
+
+  for (let i = 0; i < size; i += 1) {
+    idle.push(spawn());
+  }
+
+  return {
+    build(entry: WidgetEntry): Promise<string[]> {
+      return new Promise((resolve, reject) => {
+        queue.push({
+          entry,
+          settle: (response) =>
+            "error" in response
+              ? reject(new Error(`Build for "${entry.name}" failed: ${response.error}`))
+              : resolve(response.moduleIds),
+        });
+        dispatch();
+      });
+    },
+    close() {
+      for (const worker of [...idle, ...busy.keys()]) {
+        worker.disconnect();
+      }
+    },
+  };
 }
-console.groupEnd();
 
-console.log("new hash: ", h);
+type WorkerPool = ReturnType<typeof createWorkerPool>;
+
+function contentHash(contents: string | Buffer): string {
+  return crypto.createHash("sha256").update(contents).digest("hex").slice(0, 8);
+}
+
+// Renames `<name>.<ext>` in outDir to its content-hashed name.
+function hashOutput(fileName: string): string | undefined {
+  const out = path.join(outDir, fileName);
+  if (!fs.existsSync(out)) {
+    return undefined;
+  }
+
+  const ext = path.extname(fileName);
+  const base = path.basename(fileName, ext);
+  const hashedName = `${base}-${contentHash(fs.readFileSync(out))}${ext}`;
+
+  fs.renameSync(out, path.join(outDir, hashedName));
+  console.log(`${out} -> ${path.join(outDir, hashedName)}`);
+  return hashedName;
+}
 
 const defaultBaseUrl = "http://localhost:4444";
 const baseUrlCandidate = process.env.BASE_URL?.trim() ?? "";
 const baseUrlRaw = baseUrlCandidate.length > 0 ? baseUrlCandidate : defaultBaseUrl;
 const normalizedBaseUrl = baseUrlRaw.replace(/\/+$/, "") || defaultBaseUrl;
-console.log(`Using BASE_URL ${normalizedBaseUrl} for generated HTML`);
 
-for (const name of builtNames) {
-  const dir = outDir;
-  const hashedHtmlPath = path.join(dir, `${name}-${h}.html`);
-  const liveHtmlPath = path.join(dir, `${name}.html`);
+// Inlined code must not close its own tag early; `<\/` is equivalent inside
+// JS strings, regexes and comments, and a valid escape in CSS.
+function inlineScript(source: string): string {
+  return source
+    .replace(/^\/\/# sourceMappingURL=.*$/m, "")
+    .replace(/<\/script/gi, "<\\/script");
+}
+
+function inlineStyle(source: string): string {
+  return source
+    .replace(/\/\*# sourceMappingURL=.*?\*\//g, "")
+    .replace(/<\/style/gi, "<\\/style");
+}
+
+function renderHead(jsName: string, cssName: string | undefined): string {
+  if (inlineAssets) {
+    const js = fs.readFileSync(path.join(outDir, jsName), "utf8");
+    const css = cssName
+      ? fs.readFileSync(path.join(outDir, cssName), "utf8")
+      : null;
+    return [
+      `  <script type="module">${inlineScript(js)}</script>`,
+      ...(css !== null ? [`  <style>${inlineStyle(css)}</style>`] : []),
+    ].join("\n");
+  }
+
+  return [
+    `  <script type="module" src="${normalizedBaseUrl}/${jsName}"></script>`,
+    ...(cssName
+      ? [`  <link rel="stylesheet" href="${normalizedBaseUrl}/${cssName}">`]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Hashes a freshly built widget, writes its HTML, and records it in the
+ * manifest. Files from the widget's previous build are removed.
+ */
+function finalizeWidget(name: string, manifest: BuildManifest) {
+  const previous = manifest.widgets[name];
+  const jsName = hashOutput(`${name}.js`);
+  const cssName = hashOutput(`${name}.css`);
+
+  if (!jsName) {
+    throw new Error(`Build for "${name}" did not produce ${name}.js`);
+  }
+
   const html = `<!doctype html>
 <html>
 <head>
-  <script type="module" src="${normalizedBaseUrl}/${name}-${h}.js"></script>
-  <link rel="stylesheet" href="${normalizedBaseUrl}/${name}-${h}.css">
+${renderHead(jsName, cssName)}
 </head>
 <body>
   <div id="${name}-root"></div>
 </body>
 </html>
 `;
-  fs.writeFileSync(hashedHtmlPath, html, { encoding: "utf8" });
+  const htmlName = `${name}-${contentHash(html)}.html`;
+  // The un-hashed alias keeps servers that look up `<name>.html` working.
+  const liveHtmlPath = path.join(outDir, `${name}.html`);
+  fs.writeFileSync(path.join(outDir, htmlName), html, { encoding: "utf8" });
   fs.writeFileSync(liveHtmlPath, html, { encoding: "utf8" });
   console.log(`${liveHtmlPath}`);
+
+  const current = {
+    html: describeFile(htmlName),
+    js: describeFile(jsName),
+    css: cssName ? describeFile(cssName) : null,
+  };
+  manifest.widgets[name] = current;
+
+  const keep = new Set([current.html.path, current.js.path, current.css?.path]);
+  for (const file of [previous?.html, previous?.js, previous?.css]) {
+    if (file && !keep.has(file.path)) {
+      fs.rmSync(path.join(outDir, file.path), { force: true });
+    }
+  }
+}
+
+function writeManifest(manifest: BuildManifest) {
+  manifest.buildTime = new Date().toISOString();
+  manifest.gitSha = readGitSha();
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n", {
+    encoding: "utf8",
+  });
+  console.log(
+    `Wrote ${manifestPath} (${Object.keys(manifest.widgets).length} widgets)`
+  );
+}
+
+// `--only` builds add to the existing output instead of replacing it, as long
+// as it was produced in the same mode.
+function loadPreviousManifest(): BuildManifest | null {
+  if (!options.only || !fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  try {
+    const previous = JSON.parse(
+      fs.readFileSync(manifestPath, "utf8")
+    ) as BuildManifest;
+    return previous.inline === inlineAssets &&
+      previous.baseUrl === normalizedBaseUrl
+      ? previous
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds `entries` (in the pool when one is given) and finalizes each widget
+ * as it completes. Returns the source files of every widget that built.
+ */
+async function buildAll(
+  entries: WidgetEntry[],
+  manifest: BuildManifest,
+  pool: WorkerPool | null
+) {
+  const sources = new Map<string, string[]>();
+
+  const buildOne = async (entry: WidgetEntry) => {
+    let moduleIds: string[];
+    if (pool) {
+      // Concurrent builds would interleave inside a console group.
+      console.log(`Building ${entry.name} (react, worker)`);
+      moduleIds = await pool.build(entry);
+    } else {
+      console.group(`Building ${entry.name} (react)`);
+      moduleIds = await buildWidget(entry);
+      console.groupEnd();
+    }
+    finalizeWidget(entry.name, manifest);
+    sources.set(entry.name, moduleIds);
+    console.log(`Built ${entry.name}`);
+  };
+
+  if (pool) {
+    const results = await Promise.allSettled(entries.map(buildOne));
+    const failures = results.flatMap((result) =>
+      result.status === "rejected" ? [result.reason] : []
+    );
+    if (failures.length) {
+      throw new AggregateError(failures, `${failures.length} widget build(s) failed`);
+    }
+  } else {
+    for (const entry of entries) {
+      await buildOne(entry);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Rebuilds widgets whose sources change under src/. A change inside a
+ * widget's directory or in any module its bundle includes rebuilds that
+ * widget; a change to the global CSS rebuilds all of them. New widget
+ * directories are picked up as they appear.
+ */
+function watchSources(
+  initialSources: Map<string, string[]>,
+  manifest: BuildManifest,
+  pool: WorkerPool | null
+) {
+  const sources = initialSources;
+  const pending = new Set<string>();
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let building = false;
+
+  const affectedEntries = (changed: Set<string>) => {
+    const entries = selectEntries(discoverEntries(), options.only);
+    const globalChange = GLOBAL_CSS_LIST.some((file) => changed.has(file));
+
+    return entries.filter((entry) => {
+      if (globalChange || !sources.has(entry.name)) {
+        return true;
+      }
+      const entryDir = path.dirname(path.resolve(entry.file)) + path.sep;
+      const entrySources = new Set(sources.get(entry.name));
+      return [...changed].some(
+        (file) => file.startsWith(entryDir) || entrySources.has(file)
+      );
+    });
+  };
+
+  const rebuild = async () => {
+    if (building) {
+      return;
+    }
+    building = true;
+
+    const changed = new Set(pending);
+    pending.clear();
+
+    let entries: WidgetEntry[] = [];
+    try {
+      entries = affectedEntries(changed);
+    } catch (error) {
+      // Usually a widget.json mid-edit; the next save retries.
+      console.error(error);
+    }
+
+    if (entries.length) {
+      console.log(
+        `\nRebuilding ${entries.map((entry) => entry.name).join(", ")}`
+      );
+      try {
+        const rebuilt = await buildAll(entries, manifest, pool);
+        rebuilt.forEach((moduleIds, name) => sources.set(name, moduleIds));
+      } catch (error) {
+        console.error(error);
+      }
+      writeManifest(manifest);
+    }
+
+    building = false;
+    if (pending.size) {
+      await rebuild();
+    }
+  };
+
+  fs.watch("src", { recursive: true }, (_event, fileName) => {
+    if (!fileName) {
+      return;
+    }
+    pending.add(path.resolve("src", fileName.toString()));
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      void rebuild();
+    }, 200);
+  });
+
+  console.log("\nWatching src/ for changes...");
+}
+
+if (options.worker) {
+  process.on("message", async (entry: WidgetEntry) => {
+    try {
+      const moduleIds = await buildWidget(entry, "warn");
+      process.send!({ name: entry.name, moduleIds } satisfies WorkerResponse);
+    } catch (error) {
+      process.send!({
+        name: entry.name,
+        error: error instanceof Error ? (error.stack ?? error.message) : String(error),
+      } satisfies WorkerResponse);
+    }
+  });
+} else {
+  const entries = selectEntries(discoverEntries(), options.only);
+  const previous = loadPreviousManifest();
+
+  if (!previous) {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  }
+
+  if (inlineAssets) {
+    console.log("Inlining JS and CSS into generated HTML");
+  } else {
+    console.log(`Using BASE_URL ${normalizedBaseUrl} for generated HTML`);
+  }
+
+  const manifest: BuildManifest = previous ?? {
+    buildTime: new Date().toISOString(),
+    gitSha: null,
+    baseUrl: normalizedBaseUrl,
+    inline: inlineAssets,
+    widgets: {},
+  };
+
+  const jobs = Number(options.jobs ?? os.availableParallelism());
+  const pool =
+    options.parallel || options.jobs
+      ? createWorkerPool(
+          Math.max(1, Math.min(Number.isFinite(jobs) ? jobs : 1, entries.length))
+        )
+      : null;
+
+  let sources = new Map<string, string[]>();
+  try {
+    sources = await buildAll(entries, manifest, pool);
+  } catch (error) {
+    if (!options.watch) {
+      pool?.close();
+      throw error;
+    }
+    console.error(error);
+  }
+  fs.mkdirSync(outDir, { recursive: true });
+  writeManifest(manifest);
+
+  if (options.watch) {
+    watchSources(sources, manifest, pool);
+  } else {
+    pool?.close();
+  }
 }
@@ -0,0 +1,256 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import fg from "fast-glob";
+import path from "path";
+import fs from "fs";
+import { parseArgs } from "util";
+
+// Usage: pnpm run build && pnpm run codegen [--check]
+// The servers load widget HTML from the build manifest when they start, so
+// codegen needs a build first.
+
+const outDir = path.join("src", "tool-types");
+const manifestPath = path.join("assets", "manifest.json");
+
+const { values: options } = parseArgs({
+  options: {
+    // Exits non-zero instead of writing when a generated module is stale.
+    check: { type: "boolean", default: false },
+  },
+});
+
+type ServerPackage = {
+  /** Module name under src/tool-types/, e.g. "kitchen-sink". */
+  name: string;
+  dir: string;
+};
+
+type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  pattern?: string;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+};
+
+/** Workspace packages that can be started with `start:stdio`. */
+function discoverServers(): ServerPackage[] {
+  return fg
+    .sync("*_server_node/package.json")
+    .filter((file) => {
+      const pkg = JSON.parse(fs.readFileSync(file, "utf8"));
+      return typeof pkg.scripts?.["start:stdio"] === "string";
+    })
+    .map((file) => {
+      const dir = path.dirname(file);
+      return {
+        name: dir.replace(/_server_node$/, "").replace(/_/g, "-"),
+        dir,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Starts the server over stdio and returns the tools it advertises. */
+async function listServerTools(server: ServerPackage): Promise<Tool[]> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", "src/server.ts", "--stdio"],
+    cwd: path.resolve(server.dir),
+    stderr: "pipe",
+  });
+  let stderr = "";
+  transport.stderr?.on("data", (chunk) => {
+    stderr += chunk;
+  });
+
+  const client = new Client({ name: "codegen-tool-types", version: "0.1.0" });
+  try {
+    await client.connect(transport);
+    const { tools } = await client.listTools();
+    return tools;
+  } catch (error) {
+    throw new Error(
+      `Could not list tools from ${server.dir}: ${
+        error instanceof Error ? error.message : String(error)
+      }${stderr ? `\n${stderr.trim()}` : ""}`,
+      { cause: error }
+    );
+  } finally {
+    await client.close();
+  }
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function docComment(description: string | undefined, indent: string): string {
+  if (!description) return "";
+  const lines = description.split("\n");
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines
+    .map((line) => `${indent} * ${line}`.trimEnd())
+    .join("\n")}\n${indent} */\n`;
+}
+
+/** Description plus any constraint TypeScript cannot express. */
+function propertyDoc(property: JsonSchema): string | undefined {
+  const lines = [
+    property.description,
+    property.pattern && `@pattern ${property.pattern}`,
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+/**
+ * Renders a TypeScript type for the subset of JSON Schema the servers use:
+ * primitives, enums and consts, unions, arrays and objects.
+ */
+function renderType(schema: JsonSchema | boolean | undefined, indent = ""): string {
+  if (schema === undefined || schema === true) return "unknown";
+  if (schema === false) return "never";
+
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    return variants.map((variant) => renderType(variant, indent)).join(" | ");
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type
+      .map((type) => renderType({ ...schema, type }, indent))
+      .join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const item = renderType(schema.items, indent);
+      return /^[\w"]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case "object":
+      return renderObject(schema, indent);
+    default:
+      return schema.properties ? renderObject(schema, indent) : "unknown";
+  }
+}
+
+function renderObject(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    return extra === false
+      ? "Record<string, never>"
+      : `Record<string, ${renderType(extra === undefined ? true : extra, indent)}>`;
+  }
+
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines = properties.map(([key, property]) => {
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const optional = required.has(key) ? "" : "?";
+    return `${docComment(propertyDoc(property), inner)}${inner}${name}${optional}: ${renderType(property, inner)};`;
+  });
+  if (extra !== undefined && extra !== false) {
+    lines.push(`${inner}[key: string]: ${renderType(extra, inner)};`);
+  }
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function renderModule(server: ServerPackage, tools: Tool[]): string {
+  const sorted = tools.toSorted((a, b) => a.name.localeCompare(b.name));
+  const blocks = sorted.map((tool) => {
+    const typeName = pascalCase(tool.name);
+    const output = tool.outputSchema
+      ? renderType(tool.outputSchema as JsonSchema)
+      : "Record<string, unknown>";
+    return [
+      `${docComment(tool.title ?? tool.description, "")}export type ${typeName}Input = ${renderType(tool.inputSchema as JsonSchema)};`,
+      `${tool.outputSchema ? "" : "/** No outputSchema declared. */\n"}export type ${typeName}Output = ${output};`,
+    ].join("\n\n");
+  });
+  const map = (suffix: string) =>
+    sorted
+      .map((tool) => `  ${JSON.stringify(tool.name)}: ${pascalCase(tool.name)}${suffix};`)
+      .join("\n");
+
+  return `// Generated by codegen-tool-types.mts from ${server.dir}. Do not edit.
+// Run \`pnpm run codegen\` after changing a tool's input or output schema.
+
+${blocks.join("\n\n")}
+
+/** Tool arguments, keyed by tool name. */
+export type ToolInputs = {
+${map("Input")}
+};
+
+/** Tool \`structuredContent\`, keyed by tool name. */
+export type ToolOutputs = {
+${map("Output")}
+};
+
+export type ToolName = keyof ToolInputs;
+`;
+}
+
+if (!fs.existsSync(manifestPath)) {
+  console.error(
+    `Build manifest not found at ${manifestPath}. The servers need built assets to start: run "pnpm run build" before "pnpm run codegen".`
+  );
+  process.exit(1);
+}
+
+const servers = discoverServers();
+const stale: string[] = [];
+
+if (!options.check) {
+  fs.mkdirSync(outDir, { recursive: true });
+}
+
+for (const server of servers) {
+  const tools = await listServerTools(server);
+  const file = path.join(outDir, `${server.name}.ts`);
+  const source = renderModule(server, tools);
+  const current = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null;
+
+  if (current === source) {
+    console.log(`${file} is up to date (${tools.length} tools)`);
+  } else if (options.check) {
+    stale.push(file);
+  } else {
+    fs.writeFileSync(file, source, "utf8");
+    console.log(`Wrote ${file} (${tools.length} tools)`);
+  }
+}
+
+if (stale.length > 0) {
+  console.error(
+    `Generated tool types are out of date: ${stale.join(", ")}. Run "pnpm run codegen".`
+  );
+  process.exit(1);
+}
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { DisplayMode, UnknownObject } from "../src/types";
+import { ControlPanel, type HostEvent } from "./control-panel";
+import {
+  callTool,
+  connectMcp,
+  outputTemplateUri,
+  readOutputTemplate,
+  toCallToolResponse,
+  type McpConnection,
+} from "./mcp-client";
+import {
+  DEFAULT_GLOBALS,
+  prepareWidgetHtml,
+  type HostGlobals,
+  type HostHandlers,
+} from "./openai-host";
+import { ServerPanel, type ServerStatus } from "./server-panel";
+import { WidgetFrame } from "./widget-frame";
+import { loadManifest, loadWidgetHtml, type BuildManifest } from "./widgets";
+
+const MAX_EVENTS = 200;
+
+function readWidgetParam() {
+  return new URLSearchParams(window.location.search).get("widget");
+}
+
+export function App() {
+  const [manifest, setManifest] = useState<BuildManifest | null>(null);
+  const [widget, setWidget] = useState<string | null>(readWidgetParam);
+  const [html, setHtml] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [globals, setGlobals] = useState<HostGlobals>(DEFAULT_GLOBALS);
+  const [events, setEvents] = useState<HostEvent[]>([]);
+  const nextEventId = useRef(0);
+  const [serverStatus, setServerStatus] = useState<ServerStatus>({
+    state: "disconnected",
+  });
+  const [serverTemplate, setServerTemplate] = useState<{
+    uri: string;
+    html: string;
+  } | null>(null);
+  const [calling, setCalling] = useState(false);
+  const connectionRef = useRef<McpConnection | null>(null);
+
+  const logEvent = useCallback((kind: string, detail?: unknown) => {
+    const event = { id: nextEventId.current++, at: new Date(), kind, detail };
+    setEvents((current) => [event, ...current].slice(0, MAX_EVENTS));
+  }, []);
+
+  const updateGlobals = useCallback((changes: Partial<HostGlobals>) => {
+    setGlobals((current) => ({ ...current, ...changes }));
+  }, []);
+
+  useEffect(() => {
+    loadManifest()
+      .then((loaded) => {
+        setManifest(loaded);
+        setWidget((current) =>
+          current && loaded.widgets[current]
+            ? current
+            : (Object.keys(loaded.widgets).sort()[0] ?? null)
+        );
+      })
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    if (!manifest || !widget) {
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.set("widget", widget);
+    window.history.replaceState(null, "", url);
+
+    let cancelled = false;
+    setHtml(null);
+    loadWidgetHtml(manifest, widget)
+      .then((loaded) => {
+        if (!cancelled) {
+          setError(null);
+          setHtml(loaded);
+          logEvent("widget loaded", { widget });
+        }
+      })
+      .catch((err: Error) => !cancelled && setError(err.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest, widget, logEvent]);
+
+  useEffect(() => () => void connectionRef.current?.close(), []);
+
+  const connect = async (url: string) => {
+    setServerStatus({ state: "connecting", url });
+    try {
+      const connection = await connectMcp(url);
+      connectionRef.current = connection;
+      connection.client.onclose = () => {
+        if (connectionRef.current === connection) {
+          connectionRef.current = null;
+          setServerStatus({ state: "disconnected" });
+          logEvent("server disconnected", { url });
+        }
+      };
+      setServerStatus({ state: "connected", url, tools: connection.tools });
+      logEvent("server connected", {
+        url,
+        tools: connection.tools.map((tool) => tool.name),
+      });
+    } catch (err) {
+      setServerStatus({
+        state: "error",
+        message: `Could not connect to ${url}: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  };
+
+  const disconnect = async () => {
+    const connection = connectionRef.current;
+    connectionRef.current = null;
+    setServerStatus({ state: "disconnected" });
+    await connection?.close();
+  };
+
+  // Runs a tool the way ChatGPT does: call it, then render its output template
+  // with structuredContent as toolOutput and _meta as toolResponseMetadata.
+  const invokeTool = async (tool: Tool, args: Record<string, unknown>) => {
+    const connection = connectionRef.current;
+    if (!connection) {
+      return;
+    }
+
+    setCalling(true);
+    logEvent("tool call", { name: tool.name, args });
+    try {
+      const result = await callTool(connection.client, tool.name, args);
+      logEvent(result.isError ? "tool error" : "tool result", result);
+
+      updateGlobals({
+        toolInput: args,
+        toolOutput: result.structuredContent ?? null,
+        toolResponseMetadata: result._meta ?? null,
+        widgetState: null,
+      });
+
+      const uri = outputTemplateUri(tool);
+      if (uri && !result.isError) {
+        const templateHtml = await readOutputTemplate(connection.client, uri);
+        setServerTemplate({
+          uri,
+          html: prepareWidgetHtml(templateHtml, manifest?.baseUrl ?? null),
+        });
+      }
+    } catch (err) {
+      logEvent("tool call failed", {
+        name: tool.name,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  const handlers = useMemo<HostHandlers>(
+    () => ({
+      callTool: async (name, args) => {
+        logEvent("callTool", { name, args });
+        const connection = connectionRef.current;
+        if (!connection) {
+          throw new Error(
+            `callTool("${name}") is not available: the host emulator is not connected to an MCP server`
+          );
+        }
+
+        const result = await callTool(connection.client, name, args);
+        logEvent("callTool result", result);
+        return toCallToolResponse(result);
+      },
+      sendFollowUpMessage: (prompt) => logEvent("sendFollowUpMessage", { prompt }),
+      openExternal: (href) => {
+        logEvent("openExternal", { href });
+        window.open(href, "_blank", "noopener,noreferrer");
+      },
+      requestDisplayMode: (mode) => {
+        // Like ChatGPT on mobile, PiP is coerced to fullscreen.
+        const granted: DisplayMode =
+          mode === "pip" && globals.userAgent.device.type === "mobile"
+            ? "fullscreen"
+            : mode;
+        logEvent("requestDisplayMode", { requested: mode, granted });
+        updateGlobals({ displayMode: granted });
+        return granted;
+      },
+      requestModal: (args) => logEvent("requestModal", args),
+      requestClose: () => {
+        logEvent("requestClose");
+        updateGlobals({ displayMode: "inline" });
+      },
+      setWidgetState: (state: UnknownObject) => {
+        logEvent("setWidgetState", state);
+        updateGlobals({ widgetState: state });
+      },
+    }),
+    [globals.userAgent.device.type, logEvent, updateGlobals]
+  );
+
+  const frameHtml = serverTemplate?.html ?? html;
+  const { displayMode, theme } = globals;
+  const stageClass = theme === "dark" ? "bg-neutral-900" : "bg-white";
+  const frameClass =
+    displayMode === "fullscreen"
+      ? "absolute inset-0"
+      : displayMode === "pip"
+        ? "absolute bottom-6 right-6 w-96 overflow-hidden rounded-2xl shadow-2xl ring-1 ring-black/10"
+        : "mx-auto w-full max-w-3xl overflow-hidden rounded-2xl ring-1 ring-black/10";
+
+  return (
+    <div className="flex h-screen text-slate-900">
+      <ControlPanel
+        widgets={manifest ? Object.keys(manifest.widgets).sort() : []}
+        widget={widget}
+        serverTemplateUri={serverTemplate?.uri ?? null}
+        onWidgetChange={(name) => {
+          setWidget(name);
+          setServerTemplate(null);
+          updateGlobals({ widgetState: null });
+        }}
+        globals={globals}
+        onGlobalsChange={updateGlobals}
+        events={events}
+        onClearEvents={() => setEvents([])}
+      >
+        <ServerPanel
+          status={serverStatus}
+          onConnect={connect}
+          onDisconnect={disconnect}
+          onCallTool={invokeTool}
+          calling={calling}
+        />
+      </ControlPanel>
+      <main className={`relative flex-1 overflow-auto ${stageClass}`}>
+        {error ? (
+          <p className="m-6 rounded bg-red-50 p-4 text-sm text-red-700">
+            {error}
+          </p>
+        ) : null}
+        {frameHtml ? (
+          <div className={displayMode === "inline" ? "p-6" : undefined}>
+            <div className={frameClass}>
+              <WidgetFrame
+                html={frameHtml}
+                globals={globals}
+                handlers={handlers}
+              />
+            </div>
+          </div>
+        ) : null}
+      </main>
+    </div>
+  );
+}
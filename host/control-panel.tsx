@@ -0,0 +1,314 @@
+import { useEffect, useState, type ReactNode } from "react";
+import type {
+  DeviceType,
+  DisplayMode,
+  SafeAreaInsets,
+  Theme,
+  UnknownObject,
+} from "../src/types";
+import type { HostGlobals } from "./openai-host";
+
+export type HostEvent = {
+  id: number;
+  at: Date;
+  kind: string;
+  detail?: unknown;
+};
+
+type ControlPanelProps = {
+  widgets: string[];
+  widget: string | null;
+  /** Set while showing a template loaded from the MCP server. */
+  serverTemplateUri: string | null;
+  onWidgetChange: (name: string) => void;
+  globals: HostGlobals;
+  onGlobalsChange: (globals: Partial<HostGlobals>) => void;
+  events: HostEvent[];
+  onClearEvents: () => void;
+  /** Rendered below the widget picker (the MCP server panel). */
+  children?: ReactNode;
+};
+
+const THEMES: Theme[] = ["light", "dark"];
+const DISPLAY_MODES: DisplayMode[] = ["inline", "pip", "fullscreen"];
+const DEVICE_TYPES: DeviceType[] = ["desktop", "tablet", "mobile", "unknown"];
+const INSET_SIDES: Array<keyof SafeAreaInsets> = [
+  "top",
+  "right",
+  "bottom",
+  "left",
+];
+
+const inputClass =
+  "w-full rounded border border-slate-300 bg-white px-2 py-1 text-sm";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="flex flex-col gap-3 border-b border-slate-200 pb-4">
+      <h2 className="text-sm font-semibold text-slate-900">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/** JSON textarea that applies its value on blur and reports parse errors. */
+function JsonField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: UnknownObject | null;
+  onChange: (value: UnknownObject | null) => void;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow updates that come from the widget (e.g. setWidgetState).
+  useEffect(() => {
+    setText(JSON.stringify(value, null, 2));
+    setError(null);
+  }, [value]);
+
+  const apply = () => {
+    try {
+      const parsed = text.trim() === "" ? null : JSON.parse(text);
+      if (parsed !== null && (typeof parsed !== "object" || Array.isArray(parsed))) {
+        throw new Error("Expected a JSON object or null");
+      }
+      setError(null);
+      onChange(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Field label={label}>
+      <textarea
+        className={`${inputClass} h-28 font-mono text-xs`}
+        value={text}
+        spellCheck={false}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={apply}
+      />
+      {error ? <span className="text-red-600">{error}</span> : null}
+    </Field>
+  );
+}
+
+export function ControlPanel({
+  widgets,
+  widget,
+  serverTemplateUri,
+  onWidgetChange,
+  globals,
+  onGlobalsChange,
+  events,
+  onClearEvents,
+  children,
+}: ControlPanelProps) {
+  const { userAgent, safeArea } = globals;
+
+  return (
+    <aside className="flex h-full w-80 shrink-0 flex-col gap-4 overflow-y-auto border-r border-slate-200 bg-slate-50 p-4">
+      <Section title="Widget">
+        <Field label="Build">
+          <select
+            className={inputClass}
+            value={serverTemplateUri ? "" : (widget ?? "")}
+            onChange={(event) => onWidgetChange(event.target.value)}
+          >
+            {serverTemplateUri ? (
+              <option value="" disabled>
+                {serverTemplateUri} (from server)
+              </option>
+            ) : null}
+            {widgets.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </Section>
+
+      {children}
+
+      <Section title="Display">
+        <Field label="Theme">
+          <select
+            className={inputClass}
+            value={globals.theme}
+            onChange={(event) =>
+              onGlobalsChange({ theme: event.target.value as Theme })
+            }
+          >
+            {THEMES.map((theme) => (
+              <option key={theme}>{theme}</option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Display mode">
+          <select
+            className={inputClass}
+            value={globals.displayMode}
+            onChange={(event) =>
+              onGlobalsChange({
+                displayMode: event.target.value as DisplayMode,
+              })
+            }
+          >
+            {DISPLAY_MODES.map((mode) => (
+              <option key={mode}>{mode}</option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Max height (px)">
+          <input
+            className={inputClass}
+            type="number"
+            min={0}
+            value={globals.maxHeight}
+            onChange={(event) =>
+              onGlobalsChange({ maxHeight: Number(event.target.value) })
+            }
+          />
+        </Field>
+        <div className="grid grid-cols-4 gap-2">
+          {INSET_SIDES.map((side) => (
+            <Field key={side} label={`Inset ${side}`}>
+              <input
+                className={inputClass}
+                type="number"
+                min={0}
+                value={safeArea.insets[side]}
+                onChange={(event) =>
+                  onGlobalsChange({
+                    safeArea: {
+                      insets: {
+                        ...safeArea.insets,
+                        [side]: Number(event.target.value),
+                      },
+                    },
+                  })
+                }
+              />
+            </Field>
+          ))}
+        </div>
+      </Section>
+
+      <Section title="Device">
+        <Field label="Locale">
+          <input
+            className={inputClass}
+            value={globals.locale}
+            onChange={(event) => onGlobalsChange({ locale: event.target.value })}
+          />
+        </Field>
+        <Field label="Device type">
+          <select
+            className={inputClass}
+            value={userAgent.device.type}
+            onChange={(event) =>
+              onGlobalsChange({
+                userAgent: {
+                  ...userAgent,
+                  device: { type: event.target.value as DeviceType },
+                },
+              })
+            }
+          >
+            {DEVICE_TYPES.map((type) => (
+              <option key={type}>{type}</option>
+            ))}
+          </select>
+        </Field>
+        <div className="flex gap-4 text-sm">
+          {(["hover", "touch"] as const).map((capability) => (
+            <label key={capability} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={userAgent.capabilities[capability]}
+                onChange={(event) =>
+                  onGlobalsChange({
+                    userAgent: {
+                      ...userAgent,
+                      capabilities: {
+                        ...userAgent.capabilities,
+                        [capability]: event.target.checked,
+                      },
+                    },
+                  })
+                }
+              />
+              {capability}
+            </label>
+          ))}
+        </div>
+      </Section>
+
+      <Section title="Tool data">
+        <JsonField
+          label="toolInput"
+          value={globals.toolInput}
+          onChange={(toolInput) => onGlobalsChange({ toolInput: toolInput ?? {} })}
+        />
+        <JsonField
+          label="toolOutput"
+          value={globals.toolOutput}
+          onChange={(toolOutput) => onGlobalsChange({ toolOutput })}
+        />
+        <JsonField
+          label="toolResponseMetadata"
+          value={globals.toolResponseMetadata}
+          onChange={(toolResponseMetadata) =>
+            onGlobalsChange({ toolResponseMetadata })
+          }
+        />
+        <JsonField
+          label="widgetState"
+          value={globals.widgetState}
+          onChange={(widgetState) => onGlobalsChange({ widgetState })}
+        />
+      </Section>
+
+      <section className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-slate-900">Events</h2>
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={onClearEvents}
+          >
+            Clear
+          </button>
+        </div>
+        <ol className="flex flex-col gap-2 font-mono text-xs">
+          {events.map((event) => (
+            <li key={event.id} className="rounded bg-white p-2 shadow-sm">
+              <div className="text-slate-500">
+                {event.at.toLocaleTimeString()} · {event.kind}
+              </div>
+              {event.detail !== undefined ? (
+                <pre className="whitespace-pre-wrap break-all">
+                  {JSON.stringify(event.detail, null, 2)}
+                </pre>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      </section>
+    </aside>
+  );
+}
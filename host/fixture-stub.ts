@@ -0,0 +1,80 @@
+import type { CallToolResponse, UnknownObject } from "../src/types";
+import {
+  DEFAULT_GLOBALS,
+  installOpenAi,
+  type HostGlobals,
+  type OpenAiBridge,
+} from "./openai-host";
+
+/**
+ * `src/<widget>/fixtures/<name>.json`, selected on the dev server with
+ * `?fixture=<name>`.
+ */
+export type WidgetFixture = {
+  description?: string;
+  toolInput?: UnknownObject;
+  toolOutput?: UnknownObject | null;
+  toolResponseMetadata?: UnknownObject | null;
+  widgetState?: UnknownObject | null;
+  /** Overrides for theme, displayMode, maxHeight, locale, etc. */
+  globals?: Partial<
+    Omit<
+      HostGlobals,
+      "toolInput" | "toolOutput" | "toolResponseMetadata" | "widgetState"
+    >
+  >;
+  /** Canned `window.openai.callTool` responses, keyed by tool name. */
+  callTool?: Record<string, UnknownObject>;
+};
+
+/**
+ * Installs a `window.openai` stub populated from a fixture. The dev server
+ * runs this before the widget's entry module. Host calls are logged to the
+ * console; `callTool` answers from the fixture's canned responses.
+ */
+export function installFixture(name: string, fixture: WidgetFixture) {
+  let globals: HostGlobals = {
+    ...DEFAULT_GLOBALS,
+    ...fixture.globals,
+    toolInput: fixture.toolInput ?? {},
+    toolOutput: fixture.toolOutput ?? null,
+    toolResponseMetadata: fixture.toolResponseMetadata ?? null,
+    widgetState: fixture.widgetState ?? null,
+  };
+  let bridge: OpenAiBridge | null = null;
+
+  const log = (method: string, detail?: unknown) =>
+    console.info(`[fixture ${name}] window.openai.${method}`, detail ?? "");
+
+  const update = (changes: Partial<HostGlobals>) => {
+    globals = { ...globals, ...changes };
+    bridge?.setGlobals(globals);
+  };
+
+  bridge = installOpenAi(window, globals, () => ({
+    callTool: async (tool, args) => {
+      log("callTool", { tool, args });
+      const response = fixture.callTool?.[tool];
+      if (!response) {
+        throw new Error(`Fixture "${name}" has no callTool response for "${tool}"`);
+      }
+      return response as CallToolResponse;
+    },
+    sendFollowUpMessage: (prompt) => log("sendFollowUpMessage", { prompt }),
+    openExternal: (href) => {
+      log("openExternal", { href });
+      window.open(href, "_blank", "noopener,noreferrer");
+    },
+    requestDisplayMode: (mode) => {
+      log("requestDisplayMode", { mode });
+      update({ displayMode: mode });
+      return mode;
+    },
+    requestModal: (args) => log("requestModal", args),
+    requestClose: () => log("requestClose"),
+    setWidgetState: (state) => {
+      log("setWidgetState", state);
+      globals = { ...globals, widgetState: state };
+    },
+  }));
+}
@@ -0,0 +1,6 @@
+import { createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { App } from "./app";
+import "./host.css";
+
+createRoot(document.getElementById("root")!).render(createElement(App));
@@ -0,0 +1,70 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type {
+  CallToolResult,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResponse } from "../src/types";
+
+export const DEFAULT_SERVER_URL = "http://localhost:8000/mcp";
+
+export type McpConnection = {
+  client: Client;
+  tools: Tool[];
+  close: () => Promise<void>;
+};
+
+/** Connects to one of the Node MCP servers over its legacy SSE endpoint. */
+export async function connectMcp(url: string): Promise<McpConnection> {
+  const client = new Client({ name: "widget-host-emulator", version: "0.1.0" });
+  await client.connect(new SSEClientTransport(new URL(url)));
+
+  try {
+    const { tools } = await client.listTools();
+    return { client, tools, close: () => client.close() };
+  } catch (error) {
+    await client.close();
+    throw error;
+  }
+}
+
+export function outputTemplateUri(tool: Tool): string | null {
+  const uri = tool._meta?.["openai/outputTemplate"];
+  return typeof uri === "string" ? uri : null;
+}
+
+/** Reads the HTML of a tool's `openai/outputTemplate` resource. */
+export async function readOutputTemplate(
+  client: Client,
+  uri: string
+): Promise<string> {
+  const { contents } = await client.readResource({ uri });
+  const html = contents.find(
+    (content): content is (typeof contents)[number] & { text: string } =>
+      "text" in content && typeof content.text === "string"
+  );
+
+  if (!html) {
+    throw new Error(`Resource ${uri} has no text content`);
+  }
+  return html.text;
+}
+
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>
+): Promise<CallToolResult> {
+  return (await client.callTool({ name, arguments: args })) as CallToolResult;
+}
+
+/**
+ * Shapes a tool result for `window.openai.callTool`: the full result, plus the
+ * concatenated text content as `result`.
+ */
+export function toCallToolResponse(result: CallToolResult): CallToolResponse {
+  const text = result.content
+    .flatMap((block) => (block.type === "text" ? [block.text] : []))
+    .join("\n");
+  return { ...result, result: text };
+}
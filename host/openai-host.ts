@@ -0,0 +1,132 @@
+import {
+  SET_GLOBALS_EVENT_TYPE,
+  type API,
+  type DisplayMode,
+  type OpenAiGlobals,
+  type UnknownObject,
+} from "../src/types";
+
+/** Everything the host controls; `setWidgetState` is supplied by the bridge. */
+export type HostGlobals = Omit<OpenAiGlobals, "setWidgetState">;
+
+export const DEFAULT_GLOBALS: HostGlobals = {
+  theme: "light",
+  userAgent: {
+    device: { type: "desktop" },
+    capabilities: { hover: true, touch: false },
+  },
+  locale: navigator.language || "en-US",
+  maxHeight: 500,
+  displayMode: "inline",
+  safeArea: { insets: { top: 0, bottom: 0, left: 0, right: 0 } },
+  toolInput: {},
+  toolOutput: null,
+  toolResponseMetadata: null,
+  widgetState: null,
+};
+
+/** Host-side implementations behind the `window.openai` API. */
+export type HostHandlers = {
+  callTool: API["callTool"];
+  sendFollowUpMessage: (prompt: string) => void;
+  openExternal: (href: string) => void;
+  /** Applies a display mode request and returns the granted mode. */
+  requestDisplayMode: (mode: DisplayMode) => DisplayMode;
+  requestModal: (args: { title?: string; params?: UnknownObject }) => void;
+  requestClose: () => void;
+  setWidgetState: (state: UnknownObject) => void;
+};
+
+/**
+ * Name of the function the widget iframe calls (from a bootstrap script in its
+ * srcdoc) to receive `window.openai` before any widget code runs.
+ */
+export const INSTALL_HOOK = "__openaiHostInstall";
+
+export type WidgetWindow = Window & typeof globalThis;
+
+export type OpenAiBridge = {
+  /** Applies changed globals to `window.openai` and dispatches set_globals. */
+  setGlobals: (globals: HostGlobals) => void;
+};
+
+/**
+ * Installs `window.openai` on a widget window. Handlers are looked up on every
+ * call so the host can swap them without reinstalling.
+ */
+export function installOpenAi(
+  win: WidgetWindow,
+  initialGlobals: HostGlobals,
+  getHandlers: () => HostHandlers
+): OpenAiBridge {
+  let current = initialGlobals;
+
+  const dispatch = (globals: Partial<OpenAiGlobals>) => {
+    // Use the iframe's own constructor so `instanceof` checks in the widget
+    // see an event from their realm.
+    win.dispatchEvent(
+      new win.CustomEvent(SET_GLOBALS_EVENT_TYPE, { detail: { globals } })
+    );
+  };
+
+  const openai: API & OpenAiGlobals = {
+    ...initialGlobals,
+
+    callTool: (name, args) => getHandlers().callTool(name, args),
+    sendFollowUpMessage: async ({ prompt }) => {
+      getHandlers().sendFollowUpMessage(prompt);
+    },
+    openExternal: ({ href }) => {
+      getHandlers().openExternal(href);
+    },
+    requestDisplayMode: async ({ mode }) => ({
+      mode: getHandlers().requestDisplayMode(mode),
+    }),
+    requestModal: async (args) => {
+      getHandlers().requestModal(args);
+    },
+    requestClose: async () => {
+      getHandlers().requestClose();
+    },
+    setWidgetState: async (state) => {
+      current = { ...current, widgetState: state };
+      openai.widgetState = state;
+      dispatch({ widgetState: state });
+      getHandlers().setWidgetState(state);
+    },
+  };
+
+  win.openai = openai;
+
+  return {
+    setGlobals(next) {
+      const changed: Partial<OpenAiGlobals> = {};
+      for (const key of Object.keys(next) as Array<keyof HostGlobals>) {
+        if (next[key] !== current[key]) {
+          Object.assign(changed, { [key]: next[key] });
+        }
+      }
+
+      current = next;
+      if (Object.keys(changed).length === 0) {
+        return;
+      }
+
+      Object.assign(openai, changed);
+      dispatch(changed);
+    },
+  };
+}
+
+/**
+ * Prepares built widget HTML for a same-origin srcdoc iframe: assets are
+ * loaded from this dev server, and `window.openai` is requested from the
+ * parent before the widget's module scripts run.
+ */
+export function prepareWidgetHtml(html: string, baseUrl: string | null): string {
+  const bootstrap = `<script>window.parent.${INSTALL_HOOK}?.(window);</script>`;
+  return (baseUrl ? html.replaceAll(`${baseUrl}/`, "/assets/") : html).replace(
+    "<head>",
+    `<head>\n  ${bootstrap}`
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+
+type PropertySchema = {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+};
+
+export type ObjectSchema = {
+  type?: string;
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+};
+
+type SchemaFormProps = {
+  schema: ObjectSchema;
+  onSubmit: (args: Record<string, unknown>) => void;
+  submitLabel: string;
+  disabled?: boolean;
+};
+
+const inputClass =
+  "w-full rounded border border-slate-300 bg-white px-2 py-1 text-sm";
+
+function primaryType(schema: PropertySchema): string | undefined {
+  return Array.isArray(schema.type)
+    ? schema.type.find((type) => type !== "null")
+    : schema.type;
+}
+
+/** Form state keeps raw strings; values are converted when submitting. */
+function initialValues(schema: ObjectSchema): Record<string, string | boolean> {
+  return Object.fromEntries(
+    Object.entries(schema.properties ?? {}).map(([name, property]) => {
+      const type = primaryType(property);
+      if (type === "boolean") {
+        return [name, property.default === true];
+      }
+      if (property.default === undefined) {
+        return [name, ""];
+      }
+      if (property.enum) {
+        return [name, JSON.stringify(property.default)];
+      }
+      return [
+        name,
+        type === "object" || type === "array"
+          ? JSON.stringify(property.default, null, 2)
+          : String(property.default),
+      ];
+    })
+  );
+}
+
+function toArgs(
+  schema: ObjectSchema,
+  values: Record<string, string | boolean>
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const value = values[name];
+    const type = primaryType(property);
+
+    if (type === "boolean") {
+      args[name] = value === true;
+      continue;
+    }
+    if (typeof value !== "string" || value.trim() === "") {
+      continue;
+    }
+
+    if (property.enum) {
+      // Enum options are rendered from their JSON encoding.
+      args[name] = JSON.parse(value);
+    } else if (type === "number" || type === "integer") {
+      args[name] = Number(value);
+    } else if (type === "object" || type === "array") {
+      try {
+        args[name] = JSON.parse(value);
+      } catch {
+        throw new Error(`"${name}" must be valid JSON`);
+      }
+    } else {
+      args[name] = value;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Renders a form for a tool's JSON Schema `inputSchema`: enums become selects,
+ * scalars become inputs, and objects or arrays become JSON textareas. Key it
+ * by tool so switching tools resets the values.
+ */
+export function SchemaForm({
+  schema,
+  onSubmit,
+  submitLabel,
+  disabled,
+}: SchemaFormProps) {
+  const [values, setValues] = useState(() => initialValues(schema));
+  const [error, setError] = useState<string | null>(null);
+
+  const required = new Set(schema.required ?? []);
+  const setValue = (name: string, value: string | boolean) =>
+    setValues((current) => ({ ...current, [name]: value }));
+
+  return (
+    <form
+      className="flex flex-col gap-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        try {
+          setError(null);
+          onSubmit(toArgs(schema, values));
+        } catch (err) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      }}
+    >
+      {Object.entries(schema.properties ?? {}).map(([name, property]) => {
+        const type = primaryType(property);
+        const value = values[name];
+        const label = `${name}${required.has(name) ? " *" : ""}`;
+
+        let control;
+        if (type === "boolean") {
+          control = (
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(event) => setValue(name, event.target.checked)}
+            />
+          );
+        } else if (property.enum) {
+          control = (
+            <select
+              className={inputClass}
+              value={String(value)}
+              onChange={(event) => setValue(name, event.target.value)}
+            >
+              <option value="">—</option>
+              {property.enum.map((option) => (
+                <option key={JSON.stringify(option)} value={JSON.stringify(option)}>
+                  {String(option)}
+                </option>
+              ))}
+            </select>
+          );
+        } else if (type === "object" || type === "array") {
+          control = (
+            <textarea
+              className={`${inputClass} h-20 font-mono text-xs`}
+              value={String(value)}
+              spellCheck={false}
+              placeholder={type === "array" ? "[]" : "{}"}
+              onChange={(event) => setValue(name, event.target.value)}
+            />
+          );
+        } else {
+          control = (
+            <input
+              className={inputClass}
+              type={type === "number" || type === "integer" ? "number" : "text"}
+              step={type === "integer" ? 1 : "any"}
+              min={property.minimum}
+              max={property.maximum}
+              required={required.has(name)}
+              value={String(value)}
+              onChange={(event) => setValue(name, event.target.value)}
+            />
+          );
+        }
+
+        return (
+          <label
+            key={name}
+            className="flex flex-col gap-1 text-xs font-medium text-slate-600"
+          >
+            {label}
+            {control}
+            {property.description ? (
+              <span className="font-normal text-slate-500">
+                {property.description}
+              </span>
+            ) : null}
+          </label>
+        );
+      })}
+      {error ? <span className="text-xs text-red-600">{error}</span> : null}
+      <button
+        type="submit"
+        disabled={disabled}
+        className="rounded bg-slate-900 px-3 py-1.5 text-sm text-white disabled:opacity-50"
+      >
+        {submitLabel}
+      </button>
+    </form>
+  );
+}
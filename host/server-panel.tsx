@@ -0,0 +1,111 @@
+import { useState } from "react";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_SERVER_URL, outputTemplateUri } from "./mcp-client";
+import { SchemaForm, type ObjectSchema } from "./schema-form";
+
+export type ServerStatus =
+  | { state: "disconnected" }
+  | { state: "connecting"; url: string }
+  | { state: "connected"; url: string; tools: Tool[] }
+  | { state: "error"; message: string };
+
+type ServerPanelProps = {
+  status: ServerStatus;
+  onConnect: (url: string) => void;
+  onDisconnect: () => void;
+  onCallTool: (tool: Tool, args: Record<string, unknown>) => void;
+  calling: boolean;
+};
+
+const inputClass =
+  "w-full rounded border border-slate-300 bg-white px-2 py-1 text-sm";
+
+/** Connects to a local MCP server and invokes its tools like ChatGPT would. */
+export function ServerPanel({
+  status,
+  onConnect,
+  onDisconnect,
+  onCallTool,
+  calling,
+}: ServerPanelProps) {
+  const [url, setUrl] = useState(DEFAULT_SERVER_URL);
+  const [toolName, setToolName] = useState<string | null>(null);
+
+  const tools = status.state === "connected" ? status.tools : [];
+  const tool = tools.find((candidate) => candidate.name === toolName) ?? tools[0];
+  const templateUri = tool ? outputTemplateUri(tool) : null;
+
+  return (
+    <section className="flex flex-col gap-3 border-b border-slate-200 pb-4">
+      <h2 className="text-sm font-semibold text-slate-900">MCP server</h2>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (status.state === "connected") {
+            onDisconnect();
+          } else {
+            onConnect(url);
+          }
+        }}
+      >
+        <input
+          className={inputClass}
+          value={url}
+          disabled={status.state === "connecting" || status.state === "connected"}
+          onChange={(event) => setUrl(event.target.value)}
+          aria-label="SSE endpoint"
+        />
+        <button
+          type="submit"
+          disabled={status.state === "connecting"}
+          className="shrink-0 rounded border border-slate-300 px-2 text-sm"
+        >
+          {status.state === "connected" ? "Disconnect" : "Connect"}
+        </button>
+      </form>
+
+      {status.state === "connecting" ? (
+        <p className="text-xs text-slate-500">Connecting to {status.url}…</p>
+      ) : null}
+      {status.state === "error" ? (
+        <p className="text-xs text-red-600">{status.message}</p>
+      ) : null}
+
+      {tool ? (
+        <>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Tool
+            <select
+              className={inputClass}
+              value={tool.name}
+              onChange={(event) => setToolName(event.target.value)}
+            >
+              {tools.map((candidate) => (
+                <option key={candidate.name} value={candidate.name}>
+                  {candidate.title ?? candidate.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-slate-500">
+            {tool.description}
+            {templateUri ? (
+              <>
+                {" "}
+                Renders <code>{templateUri}</code>.
+              </>
+            ) : null}
+          </p>
+          <SchemaForm
+            key={tool.name}
+            schema={tool.inputSchema as ObjectSchema}
+            submitLabel={calling ? "Calling…" : `Call ${tool.name}`}
+            disabled={calling}
+            onSubmit={(args) => onCallTool(tool, args)}
+          />
+        </>
+      ) : null}
+    </section>
+  );
+}
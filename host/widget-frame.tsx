@@ -0,0 +1,90 @@
+import {
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type SyntheticEvent,
+} from "react";
+import {
+  INSTALL_HOOK,
+  installOpenAi,
+  type HostGlobals,
+  type HostHandlers,
+  type OpenAiBridge,
+  type WidgetWindow,
+} from "./openai-host";
+
+type WidgetFrameProps = {
+  html: string;
+  globals: HostGlobals;
+  handlers: HostHandlers;
+};
+
+/**
+ * Renders widget HTML in a same-origin iframe with `window.openai` installed.
+ * Inline and pip frames grow with their content up to `maxHeight`, like in
+ * ChatGPT; fullscreen frames fill the stage.
+ */
+export function WidgetFrame({ html, globals, handlers }: WidgetFrameProps) {
+  const bridgeRef = useRef<OpenAiBridge | null>(null);
+  const globalsRef = useRef(globals);
+  const handlersRef = useRef(handlers);
+  const [contentHeight, setContentHeight] = useState<number | null>(null);
+
+  globalsRef.current = globals;
+  handlersRef.current = handlers;
+
+  // The hook must exist before the srcdoc document parses its bootstrap script.
+  useLayoutEffect(() => {
+    const parent = window as unknown as Record<string, unknown>;
+    parent[INSTALL_HOOK] = (win: WidgetWindow) => {
+      bridgeRef.current = installOpenAi(
+        win,
+        globalsRef.current,
+        () => handlersRef.current
+      );
+    };
+
+    return () => {
+      delete parent[INSTALL_HOOK];
+      bridgeRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    bridgeRef.current?.setGlobals(globals);
+  }, [globals]);
+
+  const observerRef = useRef<ResizeObserver | null>(null);
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const handleLoad = (event: SyntheticEvent<HTMLIFrameElement>) => {
+    const doc = event.currentTarget.contentDocument;
+    observerRef.current?.disconnect();
+    setContentHeight(null);
+    if (!doc?.body) {
+      return;
+    }
+
+    const measure = () => setContentHeight(doc.body.scrollHeight);
+    observerRef.current = new ResizeObserver(measure);
+    observerRef.current.observe(doc.body);
+    measure();
+  };
+
+  const { displayMode, maxHeight } = globals;
+  const height =
+    displayMode === "fullscreen"
+      ? "100%"
+      : `${Math.min(contentHeight ?? maxHeight, maxHeight)}px`;
+
+  return (
+    <iframe
+      title="Widget"
+      srcDoc={html}
+      onLoad={handleLoad}
+      className="block w-full border-0 bg-transparent"
+      style={{ height, colorScheme: globals.theme }}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+import { prepareWidgetHtml } from "./openai-host";
+
+/** The parts of assets/manifest.json (written by build-all.mts) the host reads. */
+export type BuildManifest = {
+  buildTime: string;
+  baseUrl: string;
+  widgets: Record<string, { html: { path: string } }>;
+};
+
+export async function loadManifest(): Promise<BuildManifest> {
+  const response = await fetch("/assets/manifest.json");
+  if (!response.ok) {
+    throw new Error(
+      `Could not load /assets/manifest.json (${response.status}). Run "pnpm run build" first.`
+    );
+  }
+  return response.json();
+}
+
+export async function loadWidgetHtml(
+  manifest: BuildManifest,
+  name: string
+): Promise<string> {
+  const entry = manifest.widgets[name];
+  if (!entry) {
+    throw new Error(`Widget "${name}" is not in the build manifest`);
+  }
+
+  const response = await fetch(`/assets/${entry.html.path}`);
+  if (!response.ok) {
+    throw new Error(`Could not load ${entry.html.path} (${response.status})`);
+  }
+  return prepareWidgetHtml(await response.text(), manifest.baseUrl);
+}
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import {
+  cacheKey,
+  createTtlCache,
+  resolveCacheOptions,
+  type CacheOptions,
+} from "./cache.js";
+
+const options: CacheOptions = { ttlMs: 1000, staleMs: 4000, maxEntries: 2 };
+
+describe("createTtlCache", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    mock.method(Date, "now", () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("serves a fresh entry without loading it again", async () => {
+    const cache = createTtlCache<string>("test", options);
+    const load = mock.fn(async () => "value");
+
+    assert.deepEqual(await cache.get("key", load), {
+      value: "value",
+      status: "miss",
+      ageMs: 0,
+    });
+    now = 999;
+    assert.deepEqual(await cache.get("key", load), {
+      value: "value",
+      status: "hit",
+      ageMs: 999,
+    });
+    assert.equal(load.mock.callCount(), 1);
+  });
+
+  it("serves a stale entry and refreshes it in the background", async () => {
+    const cache = createTtlCache<string>("test", options);
+    await cache.get("key", async () => "old");
+
+    now = 2000;
+    let finishRefresh!: (value: string) => void;
+    const refresh = mock.fn(
+      () => new Promise<string>((resolve) => (finishRefresh = resolve))
+    );
+    const stale = await cache.get("key", refresh);
+
+    assert.deepEqual(stale, { value: "old", status: "stale", ageMs: 2000 });
+    assert.equal(refresh.mock.callCount(), 1);
+
+    finishRefresh("new");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const fresh = await cache.get("key", async () => "unused");
+    assert.deepEqual(fresh, { value: "new", status: "hit", ageMs: 0 });
+  });
+
+  it("keeps serving the stale entry when the background refresh fails", async () => {
+    mock.method(console, "warn", () => {});
+    const cache = createTtlCache<string>("test", options);
+    await cache.get("key", async () => "old");
+
+    now = 2000;
+    await cache.get("key", () => Promise.reject(new Error("down")));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const result = await cache.get("key", async () => "unused");
+    assert.equal(result.value, "old");
+    assert.equal(result.status, "stale");
+  });
+
+  it("loads again once an entry is older than ttlMs + staleMs", async () => {
+    const cache = createTtlCache<string>("test", options);
+    await cache.get("key", async () => "old");
+
+    now = 5000;
+    const result = await cache.get("key", async () => "new");
+
+    assert.deepEqual(result, { value: "new", status: "miss", ageMs: 0 });
+  });
+
+  it("shares one load between concurrent requests for a key", async () => {
+    const cache = createTtlCache<string>("test", options);
+    const load = mock.fn(async () => "value");
+
+    const results = await Promise.all([
+      cache.get("key", load),
+      cache.get("key", load),
+    ]);
+
+    assert.equal(load.mock.callCount(), 1);
+    assert.deepEqual(
+      results.map((result) => result.value),
+      ["value", "value"]
+    );
+  });
+
+  it("does not cache failed loads", async () => {
+    const cache = createTtlCache<string>("test", options);
+
+    await assert.rejects(
+      cache.get("key", () => Promise.reject(new Error("down"))),
+      /down/
+    );
+    const result = await cache.get("key", async () => "value");
+
+    assert.equal(result.status, "miss");
+  });
+
+  it("skips a fresh entry on bypass and stores the new value", async () => {
+    const cache = createTtlCache<string>("test", options);
+    await cache.get("key", async () => "old");
+
+    const bypassed = await cache.get("key", async () => "new", {
+      bypass: true,
+    });
+    const next = await cache.get("key", async () => "unused");
+
+    assert.deepEqual(bypassed, { value: "new", status: "bypass", ageMs: 0 });
+    assert.deepEqual(next, { value: "new", status: "hit", ageMs: 0 });
+  });
+
+  it("evicts the least recently stored entry past maxEntries", async () => {
+    const cache = createTtlCache<string>("test", options);
+    await cache.get("a", async () => "a");
+    await cache.get("b", async () => "b");
+    await cache.get("c", async () => "c");
+
+    assert.equal((await cache.get("a", async () => "a2")).status, "miss");
+    assert.equal((await cache.get("c", async () => "unused")).status, "hit");
+  });
+
+  it("caches nothing when ttlMs is 0", async () => {
+    const cache = createTtlCache<string>("test", { ...options, ttlMs: 0 });
+    const load = mock.fn(async () => "value");
+
+    await cache.get("key", load);
+    await cache.get("key", load);
+
+    assert.equal(load.mock.callCount(), 2);
+  });
+});
+
+describe("cacheKey", () => {
+  it("sorts keys and drops undefined values", () => {
+    assert.equal(
+      cacheKey({ to: "2026-02-12", from: "2026-02-10", adults: undefined }),
+      cacheKey({ from: "2026-02-10", to: "2026-02-12" })
+    );
+  });
+
+  it("keeps values as they are sent", () => {
+    assert.notEqual(
+      cacheKey({ location: "Athens" }),
+      cacheKey({ location: "athens" })
+    );
+    assert.notEqual(cacheKey({ rooms: 1 }), cacheKey({ rooms: "1" }));
+  });
+});
+
+describe("resolveCacheOptions", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("reads <NAME>_CACHE_TTL_MS and <NAME>_CACHE_STALE_MS", () => {
+    process.env.HOTEL_AVAILABILITY_SEARCH_CACHE_TTL_MS = "0";
+    process.env.HOTEL_AVAILABILITY_SEARCH_CACHE_STALE_MS = "bad";
+
+    assert.deepEqual(resolveCacheOptions("hotel-availability-search", options), {
+      ...options,
+      ttlMs: 0,
+    });
+  });
+});
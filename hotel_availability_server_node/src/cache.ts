@@ -0,0 +1,128 @@
+import { logger, readNumberEnv } from "widget-server-node";
+
+export type CacheOptions = {
+  /** Entries younger than this are served without contacting the API; 0 disables caching. */
+  ttlMs: number;
+  /**
+   * For this long after the TTL, an entry is still served, and is refreshed
+   * in the background.
+   */
+  staleMs: number;
+  /** The least recently stored entries are evicted past this size. */
+  maxEntries: number;
+};
+
+/**
+ * `hit` and `stale` came from the cache; `miss` and `bypass` were fetched,
+ * `bypass` because the caller asked for fresh data.
+ */
+export type CacheStatus = "hit" | "stale" | "miss" | "bypass";
+
+export type CacheResult<T> = {
+  value: T;
+  status: CacheStatus;
+  /** Age of the value when it was returned. */
+  ageMs: number;
+};
+
+export type TtlCache<T> = {
+  /**
+   * Returns the cached value for `key`, or loads and caches it. Concurrent
+   * loads of a key share one request. Failed loads are not cached.
+   */
+  get(
+    key: string,
+    load: () => Promise<T>,
+    options?: { bypass?: boolean }
+  ): Promise<CacheResult<T>>;
+  clear(): void;
+};
+
+/**
+ * `defaults`, overridden by `<NAME>_CACHE_TTL_MS` and `<NAME>_CACHE_STALE_MS`,
+ * where NAME is `name` in upper snake case, e.g.
+ * HOTEL_AVAILABILITY_SEARCH_CACHE_TTL_MS.
+ */
+export function resolveCacheOptions(
+  name: string,
+  defaults: CacheOptions
+): CacheOptions {
+  const prefix = name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+  return {
+    ...defaults,
+    ttlMs: readNumberEnv(`${prefix}_CACHE_TTL_MS`) ?? defaults.ttlMs,
+    staleMs: readNumberEnv(`${prefix}_CACHE_STALE_MS`) ?? defaults.staleMs,
+  };
+}
+
+/**
+ * Turns the query sent upstream into a cache key: keys are sorted and
+ * undefined values dropped, as they are on the wire. Values are kept as they
+ * are, so two keys match only when the requests do; "Athens" and "athens" are
+ * separate entries.
+ */
+export function cacheKey(
+  query: Record<string, string | number | boolean | undefined>
+): string {
+  return JSON.stringify(
+    Object.keys(query)
+      .sort()
+      .flatMap((key) => (query[key] === undefined ? [] : [[key, query[key]]]))
+  );
+}
+
+export function createTtlCache<T>(
+  name: string,
+  { ttlMs, staleMs, maxEntries }: CacheOptions
+): TtlCache<T> {
+  const entries = new Map<string, { value: T; storedAt: number }>();
+  const inFlight = new Map<string, Promise<T>>();
+
+  const store = (key: string, value: T) => {
+    if (ttlMs <= 0) return;
+    entries.delete(key);
+    entries.set(key, { value, storedAt: Date.now() });
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxEntries) break;
+      entries.delete(oldest);
+    }
+  };
+
+  const load = (key: string, loader: () => Promise<T>) => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = loader()
+      .then((value) => {
+        store(key, value);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async get(key, loader, { bypass = false } = {}) {
+      const entry = bypass ? undefined : entries.get(key);
+      const ageMs = entry ? Date.now() - entry.storedAt : 0;
+
+      if (entry && ageMs < ttlMs) {
+        return { value: entry.value, status: "hit", ageMs };
+      }
+      if (entry && ageMs < ttlMs + staleMs) {
+        load(key, loader).catch((error) => {
+          logger.warn(`Refreshing a stale ${name} cache entry failed:`, error);
+        });
+        return { value: entry.value, status: "stale", ageMs };
+      }
+
+      if (entry) entries.delete(key);
+      const value = await load(key, loader);
+      return { value, status: bypass ? "bypass" : "miss", ageMs: 0 };
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,220 @@
+// Fixture properties served by the mock WebHotelier server. Prices are per
+// room per night; the server multiplies them out for the requested stay.
+
+export type MockRate = {
+  id: number;
+  room: string;
+  rate: string;
+  rate_desc: string;
+  /** WebHotelier board code: 0 room only, 1 B&B, 2 half board, 3 full board, 4 all inclusive. */
+  board: number;
+  price: number;
+  /** Per-night discount already taken off `price`. */
+  discount: number;
+  remaining: number;
+  /** Adults per room the rate sleeps. */
+  maxAdults: number;
+  min_stay: number;
+  payment_policy: string;
+  cancellation_policy: string;
+  labels: string[];
+};
+
+export type MockProperty = {
+  code: string;
+  name: string;
+  rating: number;
+  currency: string;
+  location: {
+    name: string;
+    /** ISO 3166-1-alpha-2 region code. */
+    country: string;
+    lat: number;
+    lon: number;
+  };
+  /** Relative popularity, used for sort_by=POPULARITY. */
+  popularity: number;
+  rates: MockRate[];
+};
+
+const flexible = {
+  payment_policy:
+    "<p>No prepayment needed. Pay at the property during your stay.</p>",
+  cancellation_policy:
+    "<p>Free cancellation up to 3 days before arrival. After that, the first night is charged.</p>",
+};
+
+const nonRefundable = {
+  payment_policy: "<p>Full prepayment is charged at booking.</p>",
+  cancellation_policy:
+    "<p>Non-refundable. Cancellations, changes and no-shows are charged in full.</p>",
+};
+
+export const MOCK_PROPERTIES: MockProperty[] = [
+  {
+    code: "DEMO",
+    name: "Demo Hotel Athens",
+    rating: 4,
+    currency: "EUR",
+    location: { name: "Athens", country: "GR", lat: 37.9755, lon: 23.7348 },
+    popularity: 80,
+    rates: [
+      {
+        id: 101,
+        room: "Standard Double Room",
+        rate: "Best Available Rate",
+        rate_desc: "Our flexible rate with breakfast included.",
+        board: 1,
+        price: 120,
+        discount: 0,
+        remaining: 6,
+        maxAdults: 2,
+        min_stay: 1,
+        ...flexible,
+        labels: ["Free cancellation"],
+      },
+      {
+        id: 102,
+        room: "Standard Double Room",
+        rate: "Non-Refundable",
+        rate_desc: "Save 15% when you pay in advance.",
+        board: 1,
+        price: 102,
+        discount: 18,
+        remaining: 4,
+        maxAdults: 2,
+        min_stay: 1,
+        ...nonRefundable,
+        labels: ["Best price"],
+      },
+      {
+        id: 103,
+        room: "Acropolis View Suite",
+        rate: "Best Available Rate",
+        rate_desc: "Suite with a private balcony facing the Acropolis.",
+        board: 2,
+        price: 245,
+        discount: 0,
+        remaining: 1,
+        maxAdults: 3,
+        min_stay: 2,
+        ...flexible,
+        labels: ["Free cancellation", "Only 1 left"],
+      },
+    ],
+  },
+  {
+    code: "CALDERA",
+    name: "Caldera Cliff Suites",
+    rating: 5,
+    currency: "EUR",
+    location: { name: "Santorini", country: "GR", lat: 36.4618, lon: 25.3753 },
+    popularity: 95,
+    rates: [
+      {
+        id: 201,
+        room: "Cave Suite with Plunge Pool",
+        rate: "Romantic Escape",
+        rate_desc: "Breakfast, a bottle of local wine and sunset views.",
+        board: 1,
+        price: 420,
+        discount: 40,
+        remaining: 2,
+        maxAdults: 2,
+        min_stay: 3,
+        ...flexible,
+        labels: ["Free cancellation", "Sunset view"],
+      },
+      {
+        id: 202,
+        room: "Honeymoon Villa",
+        rate: "Non-Refundable",
+        rate_desc: "Private villa with hot tub, prepaid.",
+        board: 2,
+        price: 690,
+        discount: 70,
+        remaining: 1,
+        maxAdults: 2,
+        min_stay: 3,
+        ...nonRefundable,
+        labels: ["Best price"],
+      },
+    ],
+  },
+  {
+    code: "OIAVIEW",
+    name: "Oia View Boutique Hotel",
+    rating: 4,
+    currency: "EUR",
+    location: { name: "Santorini", country: "GR", lat: 36.4614, lon: 25.3762 },
+    popularity: 70,
+    rates: [
+      {
+        id: 301,
+        room: "Superior Double Room",
+        rate: "Bed & Breakfast",
+        rate_desc: "Greek breakfast served on the terrace.",
+        board: 1,
+        price: 210,
+        discount: 0,
+        remaining: 5,
+        maxAdults: 2,
+        min_stay: 1,
+        ...flexible,
+        labels: ["Free cancellation"],
+      },
+      {
+        id: 302,
+        room: "Family Suite",
+        rate: "Room Only",
+        rate_desc: "Two bedrooms for up to four guests.",
+        board: 0,
+        price: 280,
+        discount: 0,
+        remaining: 2,
+        maxAdults: 4,
+        min_stay: 2,
+        ...flexible,
+        labels: [],
+      },
+    ],
+  },
+  {
+    code: "CHANIA",
+    name: "Old Port Residences Chania",
+    rating: 3,
+    currency: "EUR",
+    location: { name: "Chania", country: "GR", lat: 35.5181, lon: 24.0175 },
+    popularity: 55,
+    rates: [
+      {
+        id: 401,
+        room: "Studio Apartment",
+        rate: "Room Only",
+        rate_desc: "Kitchenette and harbour views.",
+        board: 0,
+        price: 85,
+        discount: 0,
+        remaining: 8,
+        maxAdults: 2,
+        min_stay: 1,
+        ...flexible,
+        labels: ["Free cancellation"],
+      },
+      {
+        id: 402,
+        room: "One-Bedroom Apartment",
+        rate: "All Inclusive",
+        rate_desc: "Meals and drinks at the partner taverna.",
+        board: 4,
+        price: 190,
+        discount: 10,
+        remaining: 0,
+        maxAdults: 4,
+        min_stay: 1,
+        ...nonRefundable,
+        labels: [],
+      },
+    ],
+  },
+];
@@ -0,0 +1,551 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { URL } from "node:url";
+
+import { readNumberEnv } from "widget-server-node";
+
+import { MOCK_PROPERTIES, type MockProperty, type MockRate } from "./properties.js";
+
+// Stand-in for the parts of the WebHotelier REST API the hotel server calls:
+// GET /manage/availability and GET /availability, behind Basic auth. The
+// active scenario decides how requests are answered; see SCENARIOS.
+
+const SCENARIOS = {
+  ok: "Normal responses from the fixture properties",
+  "no-availability": "Every rate is sold out (NO_AVAILABILITY)",
+  "no-hotels-found": "Searches match no property (NO_HOTELS_FOUND)",
+  unauthorized: "Every request fails with HTTP 401",
+  "quota-exceeded": "Every request fails with HTTP 403 and QUOTA_EXCEEDED",
+  "api-error": "HTTP 200 with error_code INTERNAL_ERROR",
+  slow: "Normal responses, sent after MOCK_DELAY_MS",
+} as const;
+
+type Scenario = keyof typeof SCENARIOS;
+
+const scenarioPath = "/_mock/scenario";
+const SCENARIO_HEADER = "x-mock-scenario";
+
+const username = process.env.MOCK_USERNAME ?? "demo";
+const password = process.env.MOCK_PASSWORD ?? "demo";
+// Longer than the client's default WEBHOTELIER_TIMEOUT_MS, so `slow` times out
+const slowDelayMs = readNumberEnv("MOCK_DELAY_MS") ?? 15000;
+
+function isScenario(value: unknown): value is Scenario {
+  return typeof value === "string" && Object.hasOwn(SCENARIOS, value);
+}
+
+const initialScenario = process.env.MOCK_SCENARIO ?? "ok";
+if (!isScenario(initialScenario)) {
+  throw new Error(
+    `Unknown MOCK_SCENARIO "${initialScenario}". Use one of: ${Object.keys(SCENARIOS).join(", ")}`
+  );
+}
+let activeScenario: Scenario = initialScenario;
+
+class RequestError extends Error {
+  readonly status: number;
+  readonly errorCode: string;
+
+  constructor(status: number, errorCode: string, message: string) {
+    super(message);
+    this.status = status;
+    this.errorCode = errorCode;
+  }
+}
+
+/** WebHotelier wraps every payload, including errors, in this envelope. */
+function sendEnvelope(
+  res: ServerResponse,
+  status: number,
+  errorCode: string,
+  errorMsg: string,
+  data?: unknown,
+  httpCode = status
+) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      http_code: httpCode,
+      error_code: errorCode,
+      error_msg: errorMsg,
+      ...(data === undefined ? {} : { data }),
+    })
+  );
+}
+
+function isAuthorized(req: IncomingMessage) {
+  const expected = Buffer.from(`${username}:${password}`).toString("base64");
+  return req.headers.authorization === `Basic ${expected}`;
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(name: string, value: string | null): Date {
+  const date = value && DATE.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new RequestError(
+      400,
+      "INVALID_PARAMETERS",
+      `${name} must be a date in YYYY-MM-DD format`
+    );
+  }
+  return date;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function parseNumber(
+  query: URLSearchParams,
+  name: string,
+  fallback?: number
+): number | undefined {
+  const value = query.get(name);
+  if (value === null || value === "") return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new RequestError(400, "INVALID_PARAMETERS", `${name} must be a number`);
+  }
+  return number;
+}
+
+function parseList(value: string | null): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+type Stay = {
+  from: Date;
+  nights: number;
+  adults: number;
+  rooms: number;
+};
+
+function parseStay(
+  query: URLSearchParams,
+  fromParam: string,
+  toParam: string
+): Stay {
+  const from = parseDate(fromParam, query.get(fromParam));
+  const nightsParam = parseNumber(query, "nights");
+  const nights = query.get(toParam)
+    ? Math.round(
+        (parseDate(toParam, query.get(toParam)).getTime() - from.getTime()) /
+          DAY_MS
+      )
+    : nightsParam ?? 1;
+
+  if (nights < 1 || nights > 30) {
+    throw new RequestError(
+      400,
+      "INVALID_PARAMETERS",
+      "The stay must be between 1 and 30 nights"
+    );
+  }
+  return {
+    from,
+    nights,
+    adults: parseNumber(query, "adults", 2)!,
+    rooms: parseNumber(query, "rooms", 1)!,
+  };
+}
+
+/** Why a rate cannot be booked for the stay, or null when it can. */
+function unavailableReason(rate: MockRate, stay: Stay, scenario: Scenario) {
+  if (scenario === "no-availability" || rate.remaining < stay.rooms) {
+    return "Sold out";
+  }
+  if (stay.adults > rate.maxAdults) {
+    return `Sleeps up to ${rate.maxAdults} adults`;
+  }
+  if (stay.nights < rate.min_stay) {
+    return `Minimum stay is ${rate.min_stay} nights`;
+  }
+  return null;
+}
+
+function renderRate(
+  property: MockProperty,
+  rate: MockRate,
+  stay: Stay,
+  reason: string | null,
+  { breakdown = false, policies = true } = {}
+) {
+  const perNight = rate.price * stay.rooms;
+  const to = formatDate(new Date(stay.from.getTime() + stay.nights * DAY_MS));
+  const days = Array.from({ length: stay.nights }, (_, index) => ({
+    date: formatDate(new Date(stay.from.getTime() + index * DAY_MS)),
+    price: perNight,
+    min_stay: rate.min_stay,
+  }));
+
+  return {
+    id: rate.id,
+    room: rate.room,
+    rate: rate.rate,
+    rate_desc: rate.rate_desc,
+    board: rate.board,
+    status: reason ? "UNV" : "AVL",
+    status_descr: reason ?? "Available",
+    remaining: reason ? 0 : rate.remaining,
+    pricing: {
+      price: perNight * stay.nights,
+      discount: rate.discount * stay.rooms * stay.nights,
+      stay: perNight * stay.nights,
+      extras: 0,
+      taxes: 0,
+    },
+    ...(policies
+      ? {
+          payment_policy: rate.payment_policy,
+          cancellation_policy: rate.cancellation_policy,
+        }
+      : {}),
+    labels: rate.labels.map((title) => ({ title })),
+    ...(breakdown ? { days } : {}),
+    url: {
+      engine: `https://example.com/book/${property.code}?rate=${rate.id}&from=${formatDate(stay.from)}&to=${to}&rooms=${stay.rooms}`,
+    },
+  };
+}
+
+function handlePropertyAvailability(query: URLSearchParams, scenario: Scenario) {
+  const code = query.get("htl_code");
+  if (!code) {
+    throw new RequestError(400, "INVALID_PARAMETERS", "htl_code is required");
+  }
+  const property = MOCK_PROPERTIES.find(
+    (candidate) => candidate.code === code.toUpperCase()
+  );
+  if (!property) {
+    throw new RequestError(404, "PROPERTY_NOT_FOUND", `Unknown property ${code}`);
+  }
+
+  const stay = parseStay(query, "from", "to");
+  const offline = query.get("offline") === "1";
+  const breakdown = query.get("breakdown") === "1";
+
+  const rates = property.rates.flatMap((rate) => {
+    const reason = unavailableReason(rate, stay, scenario);
+    return reason && !offline
+      ? []
+      : [renderRate(property, rate, stay, reason, { breakdown })];
+  });
+
+  const data = {
+    code: property.code,
+    name: property.name,
+    currency: property.currency,
+    rating: property.rating,
+    location: property.location,
+    rates,
+  };
+  if (!rates.some((rate) => rate.status === "AVL")) {
+    return { errorCode: "NO_AVAILABILITY", errorMsg: "No availability", data };
+  }
+  return { errorCode: "OK", errorMsg: "", data };
+}
+
+/** Great-circle distance in kilometres. */
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const a =
+    Math.sin(rad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(rad(lat1)) *
+      Math.cos(rad(lat2)) *
+      Math.sin(rad(lon2 - lon1) / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function handleMultiPropertyAvailability(
+  query: URLSearchParams,
+  scenario: Scenario
+) {
+  const stay = parseStay(query, "checkin", "checkout");
+  const codes = parseList(query.get("properties")).map((code) =>
+    code.toUpperCase()
+  );
+  const location = query.get("location")?.toLowerCase();
+  const lat = parseNumber(query, "lat");
+  const lon = parseNumber(query, "lon");
+  const radius = parseNumber(query, "radius", 20)!;
+  const box = ["lat1", "lon1", "lat2", "lon2"].map((name) =>
+    parseNumber(query, name)
+  );
+  const hasBox = box.every((value) => value !== undefined);
+  const origin = lat !== undefined && lon !== undefined ? { lat, lon } : null;
+
+  if (codes.length === 0 && !location && !origin && !hasBox) {
+    throw new RequestError(
+      400,
+      "INVALID_PARAMETERS",
+      "One of properties, location, lat/lon or lat1/lon1/lat2/lon2 is required"
+    );
+  }
+
+  const nameFilter = query.get("name")?.toLowerCase();
+  const ratings = parseList(query.get("rating")).map(Number);
+  const boards = parseList(query.get("board")).map(Number);
+
+  const matches = MOCK_PROPERTIES.filter((property) => {
+    if (scenario === "no-hotels-found") return false;
+
+    // Geolocation parameters are mutually exclusive: properties > location > coordinates
+    if (codes.length > 0) {
+      if (!codes.includes(property.code)) return false;
+    } else if (location) {
+      const haystack = [
+        property.name,
+        property.location.name,
+        property.location.country,
+      ].map((value) => value.toLowerCase());
+      if (!haystack.some((value) => value.includes(location))) return false;
+    } else if (origin) {
+      const { lat: propertyLat, lon: propertyLon } = property.location;
+      if (distanceKm(origin.lat, origin.lon, propertyLat, propertyLon) > radius) {
+        return false;
+      }
+    }
+
+    if (hasBox) {
+      const [lat1, lon1, lat2, lon2] = box as number[];
+      const { lat: propertyLat, lon: propertyLon } = property.location;
+      if (
+        propertyLat < lat1 ||
+        propertyLat > lat2 ||
+        propertyLon < lon1 ||
+        propertyLon > lon2
+      ) {
+        return false;
+      }
+    }
+
+    if (nameFilter && !property.name.toLowerCase().includes(nameFilter)) {
+      return false;
+    }
+    return ratings.length === 0 || ratings.includes(property.rating);
+  });
+
+  if (matches.length === 0) {
+    return {
+      errorCode: "NO_HOTELS_FOUND",
+      errorMsg: "No properties match the search",
+      data: { hotels: [] },
+    };
+  }
+
+  const maxRates = parseNumber(query, "max_rates");
+  const maxRoomRates = parseNumber(query, "max_room_rates");
+  const policies = query.get("no_policies") !== "1";
+  const includeNoAvailability = query.get("include_noavl") === "1";
+
+  const hotels = matches.flatMap((property) => {
+    const perRoom = new Map<string, number>();
+    const rates = property.rates
+      .filter((rate) => boards.length === 0 || boards.includes(rate.board))
+      .filter((rate) => unavailableReason(rate, stay, scenario) === null)
+      .sort((a, b) => a.price - b.price)
+      .filter((rate) => {
+        const count = (perRoom.get(rate.room) ?? 0) + 1;
+        perRoom.set(rate.room, count);
+        return maxRoomRates === undefined || count <= maxRoomRates;
+      })
+      .slice(0, maxRates)
+      .map((rate) => renderRate(property, rate, stay, null, { policies }));
+
+    if (rates.length === 0 && !includeNoAvailability) {
+      return [];
+    }
+    return [
+      {
+        code: property.code,
+        name: property.name,
+        rating: property.rating,
+        currency: property.currency,
+        location: property.location,
+        popularity: property.popularity,
+        ...(origin
+          ? {
+              distance:
+                Math.round(
+                  distanceKm(
+                    origin.lat,
+                    origin.lon,
+                    property.location.lat,
+                    property.location.lon
+                  ) * 10
+                ) / 10,
+            }
+          : {}),
+        price: rates[0]?.pricing.price ?? null,
+        rates,
+      },
+    ];
+  });
+
+  const sortBy = query.get("sort_by") ?? (origin ? "DISTANCE" : "POPULARITY");
+  const descending =
+    (query.get("sort_order") ?? (sortBy === "POPULARITY" ? "DESC" : "ASC")) ===
+    "DESC";
+  const sortKey = (hotel: (typeof hotels)[number]): number | string => {
+    switch (sortBy) {
+      case "NAME":
+        return hotel.name;
+      case "PRICE":
+        return hotel.price ?? Infinity;
+      case "DISTANCE":
+        return hotel.distance ?? Infinity;
+      default:
+        return hotel.popularity;
+    }
+  };
+  hotels.sort((a, b) => {
+    const [left, right] = [sortKey(a), sortKey(b)];
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return descending ? -order : order;
+  });
+
+  const maxProperties = parseNumber(query, "max_properties");
+  const data = {
+    hotels: hotels
+      .slice(0, maxProperties)
+      .map(({ popularity: _popularity, ...hotel }) => hotel),
+  };
+  if (!data.hotels.some((hotel) => hotel.rates.length > 0)) {
+    return { errorCode: "NO_AVAILABILITY", errorMsg: "No availability", data };
+  }
+  return { errorCode: "OK", errorMsg: "", data };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function handleScenarioRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === "PUT" || req.method === "POST") {
+    let requested: unknown;
+    try {
+      requested = (JSON.parse(await readBody(req)) as { scenario?: unknown })
+        .scenario;
+    } catch {
+      requested = undefined;
+    }
+    if (!isScenario(requested)) {
+      res.writeHead(400, { "Content-Type": "application/json" }).end(
+        JSON.stringify({
+          error: `Send {"scenario": "<name>"} with one of: ${Object.keys(SCENARIOS).join(", ")}`,
+        })
+      );
+      return;
+    }
+    activeScenario = requested;
+    console.log(`Scenario set to ${activeScenario}`);
+  } else if (req.method !== "GET") {
+    res.writeHead(405).end();
+    return;
+  }
+
+  res
+    .writeHead(200, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ scenario: activeScenario, scenarios: SCENARIOS }));
+}
+
+const routes: Record<
+  string,
+  (
+    query: URLSearchParams,
+    scenario: Scenario
+  ) => { errorCode: string; errorMsg: string; data: unknown }
+> = {
+  "/manage/availability": handlePropertyAvailability,
+  "/availability": handleMultiPropertyAvailability,
+};
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+  if (url.pathname === scenarioPath) {
+    await handleScenarioRequest(req, res);
+    return;
+  }
+
+  const route = routes[url.pathname];
+  if (!route || req.method !== "GET") {
+    sendEnvelope(res, 404, "NOT_FOUND", `No route for ${req.method} ${url.pathname}`);
+    return;
+  }
+
+  // A per-request override keeps concurrent tests from racing on the
+  // server-wide scenario.
+  const override = req.headers[SCENARIO_HEADER];
+  const scenario = isScenario(override) ? override : activeScenario;
+
+  if (scenario === "slow") {
+    await new Promise((resolve) => setTimeout(resolve, slowDelayMs));
+  }
+
+  if (scenario === "unauthorized" || !isAuthorized(req)) {
+    sendEnvelope(res, 401, "UNAUTHORIZED", "Invalid username or password");
+    return;
+  }
+
+  if (scenario === "quota-exceeded") {
+    sendEnvelope(res, 403, "QUOTA_EXCEEDED", "Daily request quota exceeded");
+    return;
+  }
+
+  if (scenario === "api-error") {
+    sendEnvelope(
+      res,
+      200,
+      "INTERNAL_ERROR",
+      "Temporary failure retrieving availability",
+      undefined,
+      500
+    );
+    return;
+  }
+
+  try {
+    const { errorCode, errorMsg, data } = route(url.searchParams, scenario);
+    sendEnvelope(res, 200, errorCode, errorMsg, data);
+  } catch (error) {
+    if (error instanceof RequestError) {
+      sendEnvelope(res, error.status, error.errorCode, error.message);
+      return;
+    }
+    throw error;
+  }
+}
+
+// Not PORT, which the MCP server reads, so both can run from one shell
+const port = readNumberEnv("MOCK_PORT") ?? 8097;
+
+const httpServer = createServer((req, res) => {
+  handleRequest(req, res)
+    .catch((error) => {
+      console.error("Mock WebHotelier request failed", error);
+      if (!res.headersSent) {
+        sendEnvelope(res, 500, "INTERNAL_ERROR", "Mock server error");
+      }
+    })
+    .finally(() => {
+      console.log(`${req.method} ${req.url} -> ${res.statusCode}`);
+    });
+});
+
+httpServer.listen(port, () => {
+  console.log(`Mock WebHotelier API listening on http://localhost:${port}`);
+  console.log(`  Credentials: ${username} / ${"*".repeat(password.length)}`);
+  console.log(`  Scenario: ${activeScenario} (change with PUT ${scenarioPath})`);
+});
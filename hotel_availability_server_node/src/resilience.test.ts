@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  requestTimeoutMs,
+  resolveResilienceOptions,
+  retryDelayMs,
+  type ResilienceOptions,
+} from "./resilience.js";
+
+const options: ResilienceOptions = {
+  timeoutMs: 1000,
+  maxAttempts: 3,
+  retryBaseDelayMs: 250,
+  retryMaxDelayMs: 2000,
+  failureThreshold: 3,
+  cooldownMs: 30_000,
+};
+
+const transient = new Error("transient");
+const permanent = new Error("permanent");
+const isFailure = (error: unknown) => error === transient;
+
+const succeed = () => Promise.resolve("ok");
+const fail = (error: Error) => () => Promise.reject(error);
+
+describe("createCircuitBreaker", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    mock.method(Date, "now", () => now);
+    // The breaker logs when it opens.
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function failTimes(
+    breaker: ReturnType<typeof createCircuitBreaker>,
+    count: number
+  ) {
+    for (let i = 0; i < count; i++) {
+      await assert.rejects(breaker.run(fail(transient), isFailure), transient);
+    }
+  }
+
+  it("opens after failureThreshold consecutive failures and then fails fast", async () => {
+    const breaker = createCircuitBreaker(options);
+
+    await failTimes(breaker, 2);
+    assert.equal(breaker.state(), "closed");
+    await failTimes(breaker, 1);
+    assert.equal(breaker.state(), "open");
+
+    const fn = mock.fn(succeed);
+    now = 10_000;
+    await assert.rejects(breaker.run(fn, isFailure), (error) => {
+      assert.ok(error instanceof CircuitOpenError);
+      assert.equal(error.retryAfterMs, 20_000);
+      return true;
+    });
+    assert.equal(fn.mock.callCount(), 0);
+  });
+
+  it("resets the failure count on success", async () => {
+    const breaker = createCircuitBreaker(options);
+
+    await failTimes(breaker, 2);
+    assert.equal(await breaker.run(succeed, isFailure), "ok");
+    await failTimes(breaker, 2);
+
+    assert.equal(breaker.state(), "closed");
+  });
+
+  it("neither counts nor resets on errors that are not failures", async () => {
+    const breaker = createCircuitBreaker(options);
+
+    await failTimes(breaker, 2);
+    await assert.rejects(breaker.run(fail(permanent), isFailure), permanent);
+    assert.equal(breaker.state(), "closed");
+    await failTimes(breaker, 1);
+
+    assert.equal(breaker.state(), "open");
+  });
+
+  it("lets one trial through once the cooldown is over", async () => {
+    const breaker = createCircuitBreaker(options);
+    await failTimes(breaker, 3);
+
+    now = 30_000;
+    assert.equal(breaker.state(), "half-open");
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.run(
+      () => new Promise<string>((resolve) => (finishTrial = resolve)),
+      isFailure
+    );
+
+    now = 30_400;
+    await assert.rejects(breaker.run(succeed, isFailure), (error) => {
+      assert.ok(error instanceof CircuitOpenError);
+      // Told to wait until the trial has had timeoutMs to finish.
+      assert.equal(error.retryAfterMs, 600);
+      return true;
+    });
+
+    finishTrial("ok");
+    assert.equal(await trial, "ok");
+    assert.equal(breaker.state(), "closed");
+  });
+
+  it("re-opens when the trial fails", async () => {
+    const breaker = createCircuitBreaker(options);
+    await failTimes(breaker, 3);
+
+    now = 30_000;
+    await failTimes(breaker, 1);
+
+    assert.equal(breaker.state(), "open");
+    now = 59_999;
+    assert.equal(breaker.state(), "open");
+  });
+
+  it("stays half-open when the trial fails with an error that is not a failure", async () => {
+    const breaker = createCircuitBreaker(options);
+    await failTimes(breaker, 3);
+
+    now = 30_000;
+    await assert.rejects(breaker.run(fail(permanent), isFailure), permanent);
+
+    assert.equal(breaker.state(), "half-open");
+    assert.equal(await breaker.run(succeed, isFailure), "ok");
+    assert.equal(breaker.state(), "closed");
+  });
+});
+
+describe("resolveResilienceOptions", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("reads the environment and lets overrides win", () => {
+    process.env.WEBHOTELIER_TIMEOUT_MS = "5000";
+    process.env.WEBHOTELIER_MAX_ATTEMPTS = "4";
+
+    const resolved = resolveResilienceOptions({ maxAttempts: 2 });
+
+    assert.equal(resolved.timeoutMs, 5000);
+    assert.equal(resolved.maxAttempts, 2);
+  });
+
+  it("clamps the timeout, attempts and threshold to at least 1", () => {
+    process.env.WEBHOTELIER_TIMEOUT_MS = "0";
+    process.env.WEBHOTELIER_MAX_ATTEMPTS = "0";
+    process.env.WEBHOTELIER_BREAKER_THRESHOLD = "0";
+
+    const resolved = resolveResilienceOptions();
+
+    assert.equal(resolved.timeoutMs, 1);
+    assert.equal(resolved.maxAttempts, 1);
+    assert.equal(resolved.failureThreshold, 1);
+  });
+
+  it("ignores invalid values", () => {
+    process.env.WEBHOTELIER_TIMEOUT_MS = "soon";
+
+    assert.equal(resolveResilienceOptions().timeoutMs, 10_000);
+  });
+});
+
+describe("retryDelayMs", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("doubles the ceiling per attempt up to retryMaxDelayMs", () => {
+    mock.method(Math, "random", () => 1);
+
+    assert.deepEqual(
+      [1, 2, 3, 4, 5].map((attempt) => retryDelayMs(attempt, options)),
+      [250, 500, 1000, 2000, 2000]
+    );
+  });
+});
+
+describe("requestTimeoutMs", () => {
+  it("covers every attempt and the longest backoff between them", () => {
+    assert.equal(requestTimeoutMs(options), 3 * 1000 + 2 * 2000);
+  });
+});
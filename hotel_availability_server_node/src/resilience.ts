@@ -0,0 +1,164 @@
+import { logger, readNumberEnv } from "widget-server-node";
+
+export type ResilienceOptions = {
+  /** Each attempt is aborted after this long, including reading the body. */
+  timeoutMs: number;
+  /** Attempts per request, the first included; 1 disables retries. */
+  maxAttempts: number;
+  /** Backoff before the second attempt; doubles for each one after. */
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /**
+   * Consecutive failed requests that open the circuit. A request that is
+   * retried counts once, when its last attempt fails.
+   */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before letting a trial request through. */
+  cooldownMs: number;
+};
+
+const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+  timeoutMs: 10 * 1000,
+  maxAttempts: 3,
+  retryBaseDelayMs: 250,
+  retryMaxDelayMs: 2 * 1000,
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000,
+};
+
+export function resolveResilienceOptions(
+  overrides: Partial<ResilienceOptions> = {}
+): ResilienceOptions {
+  return {
+    // A 0ms timeout would abort every request before it is sent.
+    timeoutMs: Math.max(
+      1,
+      overrides.timeoutMs ??
+        readNumberEnv("WEBHOTELIER_TIMEOUT_MS") ??
+        DEFAULT_RESILIENCE_OPTIONS.timeoutMs
+    ),
+    maxAttempts: Math.max(
+      1,
+      overrides.maxAttempts ??
+        readNumberEnv("WEBHOTELIER_MAX_ATTEMPTS") ??
+        DEFAULT_RESILIENCE_OPTIONS.maxAttempts
+    ),
+    retryBaseDelayMs:
+      overrides.retryBaseDelayMs ?? DEFAULT_RESILIENCE_OPTIONS.retryBaseDelayMs,
+    retryMaxDelayMs:
+      overrides.retryMaxDelayMs ?? DEFAULT_RESILIENCE_OPTIONS.retryMaxDelayMs,
+    failureThreshold: Math.max(
+      1,
+      overrides.failureThreshold ??
+        readNumberEnv("WEBHOTELIER_BREAKER_THRESHOLD") ??
+        DEFAULT_RESILIENCE_OPTIONS.failureThreshold
+    ),
+    cooldownMs:
+      overrides.cooldownMs ??
+      readNumberEnv("WEBHOTELIER_BREAKER_COOLDOWN_MS") ??
+      DEFAULT_RESILIENCE_OPTIONS.cooldownMs,
+  };
+}
+
+/** Longest one request can take: every attempt's timeout plus the backoffs. */
+export function requestTimeoutMs(options: ResilienceOptions) {
+  return (
+    options.maxAttempts * options.timeoutMs +
+    (options.maxAttempts - 1) * options.retryMaxDelayMs
+  );
+}
+
+/**
+ * Delay before retrying after `attempt` failed, with full jitter: a random
+ * value up to the exponential backoff, so clients that failed together do not
+ * retry together.
+ */
+export function retryDelayMs(attempt: number, options: ResilienceOptions) {
+  const ceiling = Math.min(
+    options.retryMaxDelayMs,
+    options.retryBaseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export class CircuitOpenError extends Error {
+  /** Time until the cooldown ends, or until a running trial request times out. */
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super("Circuit is open");
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export type CircuitBreaker = {
+  /**
+   * Runs `fn` unless the circuit is open. Errors for which `isFailure` returns
+   * true count towards opening it, and only a success closes it again. Other
+   * errors leave the circuit as it was.
+   */
+  run<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean): Promise<T>;
+  state(): CircuitState;
+};
+
+/**
+ * Opens after `failureThreshold` consecutive failures and then fails fast
+ * with CircuitOpenError. After `cooldownMs` it is half-open: one trial call
+ * goes through, and its outcome closes or re-opens the circuit. Calls made
+ * while the trial runs are told to retry once it has had `timeoutMs` to finish,
+ * so pass the time a whole call may take (see `requestTimeoutMs`).
+ */
+export function createCircuitBreaker({
+  failureThreshold,
+  cooldownMs,
+  timeoutMs,
+}: Pick<
+  ResilienceOptions,
+  "failureThreshold" | "cooldownMs" | "timeoutMs"
+>): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialStartedAt: number | null = null;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt >= cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+    async run(fn, isFailure) {
+      const current = state();
+      if (current === "open") {
+        throw new CircuitOpenError((openedAt ?? 0) + cooldownMs - Date.now());
+      }
+      if (current === "half-open" && trialStartedAt !== null) {
+        throw new CircuitOpenError(
+          Math.max(1, trialStartedAt + timeoutMs - Date.now())
+        );
+      }
+
+      const trial = current === "half-open";
+      if (trial) trialStartedAt = Date.now();
+      try {
+        const result = await fn();
+        failures = 0;
+        openedAt = null;
+        return result;
+      } catch (error) {
+        if (isFailure(error) && (trial || ++failures >= failureThreshold)) {
+          openedAt = Date.now();
+          logger.warn(
+            `Circuit opened after ${trial ? "a failed trial request" : `${failures} consecutive failed requests`}`
+          );
+        }
+        throw error;
+      } finally {
+        if (trial) trialStartedAt = null;
+      }
+    },
+  };
+}
@@ -1,900 +1,593 @@
 import {
-  createServer,
-  type IncomingMessage,
-  type ServerResponse,
-} from "node:http";
-import fs from "node:fs";
-import path from "node:path";
-import { URL, fileURLToPath } from "node:url";
-
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import {
-  CallToolRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ListResourcesRequestSchema,
-  ListToolsRequestSchema,
-  ReadResourceRequestSchema,
-  type CallToolRequest,
-  type ListResourceTemplatesRequest,
-  type ListResourcesRequest,
-  type ListToolsRequest,
-  type ReadResourceRequest,
-  type Resource,
-  type ResourceTemplate,
-  type Tool,
-} from "@modelcontextprotocol/sdk/types.js";
+  createWidgetServer,
+  defineTool,
+  defineWidget,
+  logger,
+  resolvePort,
+  type ToolResult,
+} from "widget-server-node";
 import { z } from "zod";
+import {
+  cacheKey,
+  createTtlCache,
+  resolveCacheOptions,
+  type CacheResult,
+} from "./cache.js";
+import {
+  credentialsFromEnv,
+  fetchMultiPropertyAvailability,
+  fetchPropertyAvailability,
+  multiPropertyAvailabilityQuery,
+  propertyAvailabilityQuery,
+  WebHotelierError,
+  type MultiPropertyAvailability,
+  type PropertyAvailability,
+} from "./webhotelier.js";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A YYYY-MM-DD string naming a real calendar date (no 2025-02-30). */
+function isoDate(description: string) {
+  return z
+    .string()
+    .regex(ISO_DATE, "Expected a date in YYYY-MM-DD format")
+    .refine((value) => {
+      // Runs even when the regex failed; that case is already reported
+      if (!ISO_DATE.test(value)) return true;
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    }, "Not a valid calendar date")
+    .describe(description);
+}
 
-type HotelAvailabilityWidget = {
-  id: string;
-  title: string;
-  templateUri: string;
-  invoking: string;
-  invoked: string;
-  html: string;
-  responseText: string;
-};
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const ROOT_DIR = path.resolve(__dirname, "..", "..");
-const ASSETS_DIR = path.resolve(ROOT_DIR, "assets");
-
-// Base API URL for the WebHotelier API
-const API_BASE_URL = "http://localhost:8097";
-
-function readWidgetHtml(componentName: string): string {
-  if (!fs.existsSync(ASSETS_DIR)) {
-    throw new Error(
-      `Widget assets not found. Expected directory ${ASSETS_DIR}. Run "pnpm run build" before starting the server.`
-    );
-  }
-
-  const directPath = path.join(ASSETS_DIR, `${componentName}.html`);
-  let htmlContents: string | null = null;
+const checkinDate = () =>
+  isoDate("Check-in date in ISO 8601 format (YYYY-MM-DD)");
 
-  if (fs.existsSync(directPath)) {
-    htmlContents = fs.readFileSync(directPath, "utf8");
-  } else {
-    const candidates = fs
-      .readdirSync(ASSETS_DIR)
-      .filter(
-        (file) => file.startsWith(`${componentName}-`) && file.endsWith(".html")
-      )
-      .sort();
-    const fallback = candidates[candidates.length - 1];
-    if (fallback) {
-      htmlContents = fs.readFileSync(path.join(ASSETS_DIR, fallback), "utf8");
-    }
-  }
+const checkoutDate = () =>
+  isoDate(
+    "Check-out date in ISO 8601 format (YYYY-MM-DD). Optional if nights is provided."
+  ).optional();
 
-  if (!htmlContents) {
-    throw new Error(
-      `Widget HTML for "${componentName}" not found in ${ASSETS_DIR}. Run "pnpm run build" to generate the assets.`
-    );
+function checkStayDates(
+  args: { checkin: string; checkout?: string },
+  ctx: z.RefinementCtx
+) {
+  // YYYY-MM-DD strings sort in date order
+  if (args.checkout !== undefined && args.checkout <= args.checkin) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "checkout must be after checkin",
+      path: ["checkout"],
+    });
   }
-
-  return htmlContents;
 }
 
-function widgetDescriptorMeta(widget: HotelAvailabilityWidget) {
-  return {
-    "openai/outputTemplate": widget.templateUri,
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-    "openai/widgetAccessible": true,
-  } as const;
-}
-
-function widgetInvocationMeta(widget: HotelAvailabilityWidget) {
-  return {
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-  } as const;
-}
+const toolInputParser = z.object({
+  propertyCode: z
+    .string()
+    .default("DEMO")
+    .describe("Property code (e.g., 'DEMO')"),
+  checkin: checkinDate(),
+  checkout: checkoutDate(),
+  nights: z
+    .number()
+    .min(1)
+    .max(30)
+    .optional()
+    .describe("Number of nights (1-30). Optional if checkout is provided."),
+  adults: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Number of adults per room (optional)"),
+  children: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Number of children per room (optional)"),
+  rooms: z
+    .number()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("Number of rooms (optional)"),
+  breakdown: z
+    .boolean()
+    .optional()
+    .describe("Include daily price breakdown (optional)"),
+  offline: z
+    .boolean()
+    .optional()
+    .describe("Include unavailable rates (optional)"),
+  bypassCache: z
+    .boolean()
+    .optional()
+    .describe(
+      "Skip cached results and fetch fresh availability (optional). Use when the user asks to refresh."
+    ),
+}).superRefine(checkStayDates);
 
-const widgets: HotelAvailabilityWidget[] = [
-  {
-    id: "hotel-availability-search",
-    title: "Search Hotel Availability",
-    templateUri: "ui://widget/hotel-availability-list.html",
-    invoking: "Searching for available rooms",
-    invoked: "Found hotel availability",
-    html: readWidgetHtml("hotel-availability-list"),
-    responseText: "Hotel availability search completed!",
+// Multi-property availability schema
+const multiPropertyInputParser = z.object({
+  checkin: checkinDate(),
+  checkout: checkoutDate(),
+  nights: z
+    .number()
+    .min(1)
+    .max(30)
+    .optional()
+    .describe("Number of nights (1-30). Optional if checkout is provided."),
+  // Geolocation - one of these is required
+  location: z
+    .string()
+    .optional()
+    .describe("Location text for geocoding (e.g., 'Santorini', 'Athens')"),
+  properties: z
+    .string()
+    .optional()
+    .describe("Comma-separated list of property codes (up to 300)"),
+  lat: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe("Latitude for radius search (-90 to 90)"),
+  lon: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe("Longitude for radius search (-180 to 180)"),
+  radius: z
+    .number()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(
+      "Search radius in kilometers (1-100). Required when using lat/lon."
+    ),
+  // Bounding box
+  lat1: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe("Bottom-left latitude for bounding box search"),
+  lon1: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe("Bottom-left longitude for bounding box search"),
+  lat2: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe("Top-right latitude for bounding box search"),
+  lon2: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe("Top-right longitude for bounding box search"),
+  region: z
+    .string()
+    .optional()
+    .describe(
+      "ISO 3166-1-alpha-2 region code for geocoding bias (e.g., 'GR', 'US')"
+    ),
+  // Occupancy
+  adults: z
+    .number()
+    .min(1)
+    .optional()
+    .describe("Number of adults per room (optional)"),
+  children: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Number of children per room (optional)"),
+  rooms: z
+    .number()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("Number of rooms (optional)"),
+  // Filters
+  name: z
+    .string()
+    .optional()
+    .describe("Property name filter (supports substring search)"),
+  rating: z
+    .string()
+    .optional()
+    .describe("Filter by rating/stars (e.g., '5' or '3,4,5')"),
+  board: z
+    .string()
+    .optional()
+    .describe("Filter by board type (e.g., '19' or '3,19,21')"),
+  // Output settings
+  sort_by: z
+    .enum(["DISTANCE", "NAME", "POPULARITY", "PRICE"])
+    .optional()
+    .describe("Sort results by: DISTANCE, NAME, POPULARITY, or PRICE"),
+  sort_order: z
+    .enum(["ASC", "DESC"])
+    .optional()
+    .describe("Sort order: ASC or DESC"),
+  max_properties: z
+    .number()
+    .optional()
+    .describe("Maximum properties to return (recommended: 50 or lower)"),
+  max_rates: z
+    .number()
+    .optional()
+    .describe("Maximum rates per property (recommended: 3 or lower)"),
+  max_room_rates: z
+    .number()
+    .optional()
+    .describe("Maximum rates per room type (recommended: 1)"),
+  no_policies: z
+    .boolean()
+    .optional()
+    .describe("Do not include rate policies in response"),
+  include_noavl: z
+    .boolean()
+    .optional()
+    .describe("Include properties with no availability"),
+  payments: z
+    .boolean()
+    .optional()
+    .describe("Include payments and cancellation fees"),
+  bypassCache: z
+    .boolean()
+    .optional()
+    .describe(
+      "Skip cached results and fetch fresh availability (optional). Use when the user asks to refresh."
+    ),
+}).superRefine(checkStayDates);
+
+// WebHotelier responses carry more fields than the widgets read, so the
+// output schemas pin down those fields and allow the rest.
+const apiStatusProperties = {
+  error_code: {
+    type: "string",
+    description: "\"OK\" on success, or a WebHotelier error code",
   },
-];
-
-const widgetsById = new Map<string, HotelAvailabilityWidget>();
-const widgetsByUri = new Map<string, HotelAvailabilityWidget>();
-
-widgets.forEach((widget) => {
-  widgetsById.set(widget.id, widget);
-  widgetsByUri.set(widget.templateUri, widget);
-});
+  error_msg: { type: "string" },
+  http_code: { type: "number" },
+} as const;
 
-const toolInputSchema = {
+const rateOutputSchema = {
   type: "object",
   properties: {
-    username: {
-      type: "string",
-      description: "WebHotelier API username",
-    },
-    password: {
-      type: "string",
-      description: "WebHotelier API password",
-    },
-    propertyCode: {
-      type: "string",
-      description: "Property code (e.g., 'DEMO')",
-      default: "DEMO",
-    },
-    checkin: {
-      type: "string",
-      description: "Check-in date in ISO 8601 format (YYYY-MM-DD)",
-    },
-    checkout: {
-      type: "string",
-      description: "Check-out date in ISO 8601 format (YYYY-MM-DD). Optional if nights is provided.",
-    },
-    nights: {
-      type: "number",
-      description: "Number of nights (1-30). Optional if checkout is provided.",
-      minimum: 1,
-      maximum: 30,
-    },
-    adults: {
-      type: "number",
-      description: "Number of adults per room (optional)",
-      minimum: 1,
-    },
-    children: {
-      type: "number",
-      description: "Number of children per room (optional)",
-      minimum: 0,
+    id: { type: ["number", "string"] },
+    room: { type: "string", description: "Room type name" },
+    rate: { type: "string", description: "Rate plan name" },
+    rate_desc: { type: "string" },
+    board: { type: "number", description: "Board type code" },
+    status: { type: "string", description: "\"AVL\" when bookable" },
+    status_descr: { type: "string" },
+    remaining: { type: "number" },
+    pricing: {
+      type: "object",
+      properties: {
+        price: { type: "number" },
+        discount: { type: "number" },
+        stay: { type: "number" },
+      },
+      additionalProperties: true,
+    },
+    payment_policy: { type: "string" },
+    cancellation_policy: { type: "string" },
+    labels: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { title: { type: "string" } },
+        additionalProperties: true,
+      },
     },
-    rooms: {
-      type: "number",
-      description: "Number of rooms (optional)",
-      minimum: 1,
-      maximum: 5,
+    days: {
+      type: "array",
+      description: "Daily price breakdown, when requested",
+      items: {
+        type: "object",
+        properties: {
+          date: { type: "string" },
+          price: { type: "number" },
+          min_stay: { type: "number" },
+        },
+        required: ["date", "price"],
+        additionalProperties: true,
+      },
     },
-    breakdown: {
-      type: "boolean",
-      description: "Include daily price breakdown (optional)",
+    url: {
+      type: "object",
+      properties: {
+        photo: { type: "string" },
+        photoM: { type: "string", description: "Medium-sized photo" },
+        engine: { type: "string", description: "Booking engine link" },
+      },
+      additionalProperties: true,
     },
-    offline: {
-      type: "boolean",
-      description: "Include unavailable rates (optional)",
+  },
+  required: ["id", "room"],
+  additionalProperties: true,
+} as const;
+
+const toolOutputSchema = {
+  type: "object",
+  properties: {
+    propertyCode: { type: "string" },
+    searchParams: {
+      type: "object",
+      properties: {
+        checkin: { type: "string" },
+        checkout: { type: "string" },
+        nights: { type: "number" },
+        adults: { type: "number" },
+        children: { type: "number" },
+        rooms: { type: "number" },
+      },
+      required: ["checkin"],
+      additionalProperties: false,
+    },
+    hotelData: {
+      type: "object",
+      description: "WebHotelier /manage/availability response",
+      properties: {
+        ...apiStatusProperties,
+        data: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            code: { type: "string" },
+            currency: { type: "string" },
+            url: {
+              type: "object",
+              properties: {
+                photo: { type: "string" },
+                photoM: { type: "string", description: "Medium-sized photo" },
+                website: { type: "string" },
+              },
+              additionalProperties: true,
+            },
+            rates: { type: "array", items: rateOutputSchema },
+          },
+          additionalProperties: true,
+        },
+      },
+      additionalProperties: true,
     },
   },
-  required: ["username", "password", "propertyCode", "checkin"],
+  required: ["propertyCode", "searchParams", "hotelData"],
   additionalProperties: false,
 } as const;
 
-// Multi-property availability schema
-const multiPropertyInputSchema = {
+const multiPropertyOutputSchema = {
   type: "object",
   properties: {
-    username: {
-      type: "string",
-      description: "WebHotelier API username",
-    },
-    password: {
-      type: "string",
-      description: "WebHotelier API password",
-    },
-    checkin: {
-      type: "string",
-      description: "Check-in date in ISO 8601 format (YYYY-MM-DD)",
-    },
-    checkout: {
-      type: "string",
-      description: "Check-out date in ISO 8601 format (YYYY-MM-DD). Optional if nights is provided.",
-    },
-    nights: {
-      type: "number",
-      description: "Number of nights (1-30). Optional if checkout is provided.",
-      minimum: 1,
-      maximum: 30,
-    },
-    // Geolocation - one of these is required
-    location: {
-      type: "string",
-      description: "Location text for geocoding (e.g., 'Santorini', 'Athens')",
-    },
-    properties: {
-      type: "string",
-      description: "Comma-separated list of property codes (up to 300)",
-    },
-    lat: {
-      type: "number",
-      description: "Latitude for radius search (-90 to 90)",
-    },
-    lon: {
-      type: "number",
-      description: "Longitude for radius search (-180 to 180)",
-    },
-    radius: {
-      type: "number",
-      description: "Search radius in kilometers (1-100). Required when using lat/lon.",
-      minimum: 1,
-      maximum: 100,
-    },
-    // Bounding box
-    lat1: {
-      type: "number",
-      description: "Bottom-left latitude for bounding box search",
-    },
-    lon1: {
-      type: "number",
-      description: "Bottom-left longitude for bounding box search",
-    },
-    lat2: {
-      type: "number",
-      description: "Top-right latitude for bounding box search",
-    },
-    lon2: {
-      type: "number",
-      description: "Top-right longitude for bounding box search",
-    },
-    region: {
-      type: "string",
-      description: "ISO 3166-1-alpha-2 region code for geocoding bias (e.g., 'GR', 'US')",
-    },
-    // Occupancy
-    adults: {
-      type: "number",
-      description: "Number of adults per room (optional)",
-      minimum: 1,
-    },
-    children: {
-      type: "number",
-      description: "Number of children per room (optional)",
-      minimum: 0,
-    },
-    rooms: {
-      type: "number",
-      description: "Number of rooms (optional)",
-      minimum: 1,
-      maximum: 5,
-    },
-    // Filters
-    name: {
-      type: "string",
-      description: "Property name filter (supports substring search)",
-    },
-    rating: {
-      type: "string",
-      description: "Filter by rating/stars (e.g., '5' or '3,4,5')",
-    },
-    board: {
-      type: "string",
-      description: "Filter by board type (e.g., '19' or '3,19,21')",
-    },
-    // Output settings
-    sort_by: {
-      type: "string",
-      description: "Sort results by: DISTANCE, NAME, POPULARITY, or PRICE",
-      enum: ["DISTANCE", "NAME", "POPULARITY", "PRICE"],
-    },
-    sort_order: {
-      type: "string",
-      description: "Sort order: ASC or DESC",
-      enum: ["ASC", "DESC"],
-    },
-    max_properties: {
-      type: "number",
-      description: "Maximum properties to return (recommended: 50 or lower)",
-    },
-    max_rates: {
-      type: "number",
-      description: "Maximum rates per property (recommended: 3 or lower)",
-    },
-    max_room_rates: {
-      type: "number",
-      description: "Maximum rates per room type (recommended: 1)",
-    },
-    no_policies: {
-      type: "boolean",
-      description: "Do not include rate policies in response",
-    },
-    include_noavl: {
-      type: "boolean",
-      description: "Include properties with no availability",
-    },
-    payments: {
-      type: "boolean",
-      description: "Include payments and cancellation fees",
+    searchParams: {
+      type: "object",
+      properties: {
+        checkin: { type: "string" },
+        checkout: { type: "string" },
+        nights: { type: "number" },
+        location: { type: "string" },
+        properties: { type: "string" },
+        adults: { type: "number" },
+        children: { type: "number" },
+        rooms: { type: "number" },
+      },
+      required: ["checkin"],
+      additionalProperties: false,
+    },
+    data: {
+      type: "object",
+      description:
+        "WebHotelier /availability response; error_code may be NO_AVAILABILITY or NO_HOTELS_FOUND",
+      properties: {
+        ...apiStatusProperties,
+        data: {
+          type: "object",
+          properties: {
+            hotels: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  code: { type: "string" },
+                  name: { type: "string" },
+                  rating: { type: "number" },
+                  currency: { type: "string" },
+                  location: {
+                    type: "object",
+                    properties: {
+                      lat: { type: "number" },
+                      lon: { type: "number" },
+                      name: { type: "string" },
+                    },
+                    additionalProperties: true,
+                  },
+                  rates: { type: "array", items: rateOutputSchema },
+                },
+                required: ["code", "name"],
+                additionalProperties: true,
+              },
+            },
+          },
+          additionalProperties: true,
+        },
+      },
+      additionalProperties: true,
     },
   },
-  required: ["username", "password", "checkin"],
+  required: ["searchParams", "data"],
   additionalProperties: false,
 } as const;
 
-const toolInputParser = z.object({
-  username: z.string(),
-  password: z.string(),
-  propertyCode: z.string().default("DEMO"),
-  checkin: z.string(),
-  checkout: z.string().optional(),
-  nights: z.number().min(1).max(30).optional(),
-  adults: z.number().min(1).optional(),
-  children: z.number().min(0).optional(),
-  rooms: z.number().min(1).max(5).optional(),
-  breakdown: z.boolean().optional(),
-  offline: z.boolean().optional(),
-});
-
-const multiPropertyInputParser = z.object({
-  username: z.string(),
-  password: z.string(),
-  checkin: z.string(),
-  checkout: z.string().optional(),
-  nights: z.number().min(1).max(30).optional(),
-  // Geolocation
-  location: z.string().optional(),
-  properties: z.string().optional(),
-  lat: z.number().min(-90).max(90).optional(),
-  lon: z.number().min(-180).max(180).optional(),
-  radius: z.number().min(1).max(100).optional(),
-  lat1: z.number().min(-90).max(90).optional(),
-  lon1: z.number().min(-180).max(180).optional(),
-  lat2: z.number().min(-90).max(90).optional(),
-  lon2: z.number().min(-180).max(180).optional(),
-  region: z.string().optional(),
-  // Occupancy
-  adults: z.number().min(1).optional(),
-  children: z.number().min(0).optional(),
-  rooms: z.number().min(1).max(5).optional(),
-  // Filters
-  name: z.string().optional(),
-  rating: z.string().optional(),
-  board: z.string().optional(),
-  // Output settings
-  sort_by: z.enum(["DISTANCE", "NAME", "POPULARITY", "PRICE"]).optional(),
-  sort_order: z.enum(["ASC", "DESC"]).optional(),
-  max_properties: z.number().optional(),
-  max_rates: z.number().optional(),
-  max_room_rates: z.number().optional(),
-  no_policies: z.boolean().optional(),
-  include_noavl: z.boolean().optional(),
-  payments: z.boolean().optional(),
-});
+// Availability changes slowly enough that repeated searches within a minute
+// or two (widget refreshes, follow-up questions) can reuse a response.
+const propertyAvailabilityCache = createTtlCache<PropertyAvailability>(
+  "hotel-availability-search",
+  resolveCacheOptions("hotel-availability-search", {
+    ttlMs: 60 * 1000,
+    staleMs: 4 * 60 * 1000,
+    maxEntries: 500,
+  })
+);
 
-async function fetchHotelAvailability(
-  params: z.infer<typeof toolInputParser>
-) {
-  // Create credentials from username and password
-  const credentials = Buffer.from(`${params.username}:${params.password}`).toString("base64");
-  
-  const queryParams = new URLSearchParams();
-  
-  // htl_code is the property code
-  queryParams.append("htl_code", params.propertyCode);
-  
-  // from = checkin date (required)
-  queryParams.append("from", params.checkin);
-  
-  // to = checkout date (calculate from nights if not provided)
-  if (params.checkout) {
-    queryParams.append("to", params.checkout);
-  } else if (params.nights) {
-    const checkinDate = new Date(params.checkin);
-    checkinDate.setDate(checkinDate.getDate() + params.nights);
-    queryParams.append("to", checkinDate.toISOString().split("T")[0]);
-  } else {
-    // Default to 1 night
-    const checkinDate = new Date(params.checkin);
-    checkinDate.setDate(checkinDate.getDate() + 1);
-    queryParams.append("to", checkinDate.toISOString().split("T")[0]);
-  }
-  
-  if (params.adults && params.adults > 0) {
-    queryParams.append("adults", params.adults.toString());
-  }
-  
-  if (params.children && params.children > 0) {
-    queryParams.append("children", params.children.toString());
-  }
-  
-  if (params.rooms && params.rooms > 0) {
-    queryParams.append("rooms", params.rooms.toString());
-  }
-  
-  if (params.breakdown !== undefined) {
-    queryParams.append("breakdown", params.breakdown ? "1" : "0");
-  }
-  
-  if (params.offline !== undefined) {
-    queryParams.append("offline", params.offline ? "1" : "0");
-  }
+const multiPropertyAvailabilityCache = createTtlCache<MultiPropertyAvailability>(
+  "multi-property-availability-search",
+  resolveCacheOptions("multi-property-availability-search", {
+    ttlMs: 2 * 60 * 1000,
+    staleMs: 8 * 60 * 1000,
+    maxEntries: 200,
+  })
+);
 
-  // URL format: /manage/availability?htl_code=XXX&from=YYYY-MM-DD&to=YYYY-MM-DD
-  const url = `${API_BASE_URL}/manage/availability?${queryParams.toString()}`;
-  
-  console.log(`Fetching hotel availability from: ${url}`);
-  console.log(`Request params:`, JSON.stringify(params, null, 2));
-  
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      "Authorization": `Basic ${credentials}`,
-      "Accept": "application/json",
+/** Tells the client whether a result came from the cache. */
+function cacheMeta({ status, ageMs }: CacheResult<unknown>) {
+  return {
+    "webhotelier/cache": {
+      hit: status === "hit" || status === "stale",
+      status,
+      ageMs,
     },
-  });
-  
-  console.log(`Response status: ${response.status}`);
-  
-  const data = await response.json() as { error_code?: string; error_msg?: string; http_code?: number; data?: unknown };
-  console.log(`Response data:`, JSON.stringify(data, null, 2));
-  
-  // Check for authentication failure
-  if (response.status === 401) {
-    throw new Error("Authentication failed. Please log in again with valid credentials.");
-  }
-  
-  // WebHotelier API returns HTTP 200 even on errors - check error_code field
-  if (data.error_code && data.error_code !== "OK") {
-    throw new Error(`API error: ${data.error_msg || data.error_code} (HTTP ${data.http_code || response.status})`);
-  }
-  
-  console.log(`Successfully fetched availability for ${params.propertyCode}`);
-  
-  return data;
+  };
 }
 
-async function fetchMultiPropertyAvailability(
-  params: z.infer<typeof multiPropertyInputParser>
-) {
-  // Create credentials from username and password
-  const credentials = Buffer.from(`${params.username}:${params.password}`).toString("base64");
-  
-  const queryParams = new URLSearchParams();
-  
-  // checkin is required
-  queryParams.append("checkin", params.checkin);
-  
-  // checkout or nights
-  if (params.checkout) {
-    queryParams.append("checkout", params.checkout);
-  } else if (params.nights) {
-    queryParams.append("nights", params.nights.toString());
-  }
-  
-  // Geolocation parameters (mutually exclusive: properties > location > coordinates)
-  if (params.properties) {
-    queryParams.append("properties", params.properties);
-  } else if (params.location) {
-    queryParams.append("location", params.location);
-    if (params.region) {
-      queryParams.append("region", params.region);
-    }
-  } else if (params.lat !== undefined && params.lon !== undefined) {
-    queryParams.append("lat", params.lat.toString());
-    queryParams.append("lon", params.lon.toString());
-    if (params.radius) {
-      queryParams.append("radius", params.radius.toString());
-    }
-  }
-  
-  // Bounding box
-  if (params.lat1 !== undefined && params.lon1 !== undefined && 
-      params.lat2 !== undefined && params.lon2 !== undefined) {
-    queryParams.append("lat1", params.lat1.toString());
-    queryParams.append("lon1", params.lon1.toString());
-    queryParams.append("lat2", params.lat2.toString());
-    queryParams.append("lon2", params.lon2.toString());
-  }
-  
-  // Occupancy
-  if (params.adults && params.adults > 0) {
-    queryParams.append("adults", params.adults.toString());
-  }
-  if (params.children && params.children > 0) {
-    queryParams.append("children", params.children.toString());
-  }
-  if (params.rooms && params.rooms > 0) {
-    queryParams.append("rooms", params.rooms.toString());
-  }
-  
-  // Filters
-  if (params.name) {
-    queryParams.append("name", params.name);
-  }
-  if (params.rating) {
-    queryParams.append("rating", params.rating);
-  }
-  if (params.board) {
-    queryParams.append("board", params.board);
-  }
-  
-  // Output settings
-  if (params.sort_by) {
-    queryParams.append("sort_by", params.sort_by);
-  }
-  if (params.sort_order) {
-    queryParams.append("sort_order", params.sort_order);
-  }
-  if (params.max_properties) {
-    queryParams.append("max_properties", params.max_properties.toString());
-  }
-  if (params.max_rates) {
-    queryParams.append("max_rates", params.max_rates.toString());
-  }
-  if (params.max_room_rates) {
-    queryParams.append("max_room_rates", params.max_room_rates.toString());
-  }
-  if (params.no_policies) {
-    queryParams.append("no_policies", "1");
-  }
-  if (params.include_noavl) {
-    queryParams.append("include_noavl", "1");
-  }
-  if (params.payments) {
-    queryParams.append("payments", "1");
-  }
-
-  // URL format: /availability?checkin=...&checkout=...&location=...
-  const url = `${API_BASE_URL}/availability?${queryParams.toString()}`;
-  
-  console.log(`Fetching multi-property availability from: ${url}`);
-  console.log(`Request params:`, JSON.stringify(params, null, 2));
-  
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      "Authorization": `Basic ${credentials}`,
-      "Accept": "application/json",
-    },
-  });
-  
-  console.log(`Response status: ${response.status}`);
-  
-  const data = await response.json() as { error_code?: string; error_msg?: string; http_code?: number; data?: { hotels?: unknown[] } };
-  console.log(`Response data:`, JSON.stringify(data, null, 2));
-  
-  // Check for authentication failure
-  if (response.status === 401) {
-    throw new Error("Authentication failed. Please check your credentials.");
-  }
-  
-  if (response.status === 403) {
-    throw new Error(`Access forbidden: ${data.error_msg || "Invalid credentials or quota exceeded"}`);
-  }
-  
-  // WebHotelier API returns HTTP 200 even on errors - check error_code field
-  if (data.error_code && data.error_code !== "OK" && data.error_code !== "NO_AVAILABILITY" && data.error_code !== "NO_HOTELS_FOUND") {
-    throw new Error(`API error: ${data.error_msg || data.error_code} (HTTP ${data.http_code || response.status})`);
-  }
-  
-  console.log(`Successfully fetched multi-property availability`);
-  
-  return data;
+/**
+ * Error result for a failed WebHotelier call. `_meta["webhotelier/error"]`
+ * says why it failed and whether calling again later may help. It is not in
+ * `structuredContent`, which clients check against the success outputSchema
+ * even on errors.
+ */
+function upstreamErrorResult(what: string, error: unknown): ToolResult {
+  logger.error(`Error fetching ${what}:`, error);
+  const details =
+    error instanceof WebHotelierError
+      ? error.toDetails()
+      : {
+          reason: "unknown",
+          message: error instanceof Error ? error.message : "Unknown error",
+          retryable: false,
+        };
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error fetching ${what}: ${details.message}${
+          details.retryable ? " This is temporary; try again later." : ""
+        }`,
+      },
+    ],
+    _meta: { "webhotelier/error": details },
+    isError: true,
+  };
 }
 
 // Multi-property search tool
-const multiPropertyTool: Tool = {
+const multiPropertyTool = defineTool({
   name: "multi-property-availability-search",
   description: "Search availability across multiple properties by location, coordinates, or property codes. Returns a list of available properties with pricing.",
-  inputSchema: multiPropertyInputSchema,
+  outputSchema: multiPropertyOutputSchema,
+  parser: multiPropertyInputParser,
   title: "Multi-Property Availability Search",
-  annotations: {
-    destructiveHint: false,
-    openWorldHint: false,
-    readOnlyHint: true,
-  },
-};
-
-const widgetTools: Tool[] = widgets.map((widget) => ({
-  name: widget.id,
-  description: widget.title,
-  inputSchema: toolInputSchema,
-  title: widget.title,
-  _meta: widgetDescriptorMeta(widget),
-  // To disable the approval prompt for the widgets
-  annotations: {
-    destructiveHint: false,
-    openWorldHint: false,
-    readOnlyHint: true,
-  },
-}));
-
-const tools: Tool[] = [multiPropertyTool, ...widgetTools];
-
-const resources: Resource[] = widgets.map((widget) => ({
-  uri: widget.templateUri,
-  name: widget.title,
-  description: `${widget.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetDescriptorMeta(widget),
-}));
-
-const resourceTemplates: ResourceTemplate[] = widgets.map((widget) => ({
-  uriTemplate: widget.templateUri,
-  name: widget.title,
-  description: `${widget.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetDescriptorMeta(widget),
-}));
-
-function createHotelAvailabilityServer(): Server {
-  const server = new Server(
-    {
-      name: "hotel-availability-node",
-      version: "0.1.0",
-    },
-    {
-      capabilities: {
-        resources: {},
-        tools: {},
-      },
-    }
-  );
-
-  server.setRequestHandler(
-    ListResourcesRequestSchema,
-    async (_request: ListResourcesRequest) => ({
-      resources,
-    })
-  );
-
-  server.setRequestHandler(
-    ReadResourceRequestSchema,
-    async (request: ReadResourceRequest) => {
-      const widget = widgetsByUri.get(request.params.uri);
-
-      if (!widget) {
-        throw new Error(`Unknown resource: ${request.params.uri}`);
-      }
-
-      return {
-        contents: [
-          {
-            uri: widget.templateUri,
-            mimeType: "text/html+skybridge",
-            text: widget.html,
-            _meta: widgetDescriptorMeta(widget),
-          },
-        ],
-      };
+  handler: async (args) => {
+    let cached;
+    try {
+      const { bypassCache, ...params } = args;
+      const credentials = credentialsFromEnv();
+      cached = await multiPropertyAvailabilityCache.get(
+        cacheKey(multiPropertyAvailabilityQuery(params)),
+        () => fetchMultiPropertyAvailability(credentials, params),
+        { bypass: bypassCache }
+      );
+    } catch (error) {
+      return upstreamErrorResult("multi-property availability", error);
     }
-  );
-
-  server.setRequestHandler(
-    ListResourceTemplatesRequestSchema,
-    async (_request: ListResourceTemplatesRequest) => ({
-      resourceTemplates,
-    })
-  );
-
-  server.setRequestHandler(
-    ListToolsRequestSchema,
-    async (_request: ListToolsRequest) => ({
-      tools,
-    })
-  );
-
-  server.setRequestHandler(
-    CallToolRequestSchema,
-    async (request: CallToolRequest) => {
-      const toolName = request.params.name;
-
-      // Handle multi-property availability search
-      if (toolName === "multi-property-availability-search") {
-        const args = multiPropertyInputParser.parse(request.params.arguments ?? {});
-
-        let data;
-        try {
-          data = await fetchMultiPropertyAvailability(args);
-        } catch (error) {
-          console.error("Error fetching multi-property availability:", error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error fetching multi-property availability: ${error instanceof Error ? error.message : "Unknown error"}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const hotelCount = data.data?.hotels?.length ?? 0;
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Found ${hotelCount} properties with availability.`,
-            },
-          ],
-          structuredContent: {
-            searchParams: {
-              checkin: args.checkin,
-              checkout: args.checkout,
-              nights: args.nights,
-              location: args.location,
-              properties: args.properties,
-              adults: args.adults,
-              children: args.children,
-              rooms: args.rooms,
-            },
-            data,
-          },
-        };
-      }
-
-      // Handle single-property widget tools
-      const widget = widgetsById.get(toolName);
-
-      if (!widget) {
-        throw new Error(`Unknown tool: ${toolName}`);
-      }
-
-      const args = toolInputParser.parse(request.params.arguments ?? {});
-
-      // Fetch hotel availability from the API
-      let hotelData;
-      try {
-        hotelData = await fetchHotelAvailability(args);
-      } catch (error) {
-        console.error("Error fetching hotel availability:", error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error fetching hotel availability: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: widget.responseText,
-          },
-        ],
-        structuredContent: {
-          propertyCode: args.propertyCode,
-          searchParams: {
-            checkin: args.checkin,
-            checkout: args.checkout,
-            nights: args.nights,
-            adults: args.adults,
-            children: args.children,
-            rooms: args.rooms,
-          },
-          hotelData,
+    const data = cached.value;
+
+    const hotelCount = data.data?.hotels?.length ?? 0;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${hotelCount} properties with availability.`,
         },
-        _meta: widgetInvocationMeta(widget),
-      };
-    }
-  );
-
-  return server;
-}
-
-type SessionRecord = {
-  server: Server;
-  transport: SSEServerTransport;
-};
-
-const sessions = new Map<string, SessionRecord>();
-
-const ssePath = "/mcp";
-const postPath = "/mcp/messages";
-
-async function handleSseRequest(res: ServerResponse) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  const transport = new SSEServerTransport(postPath, res);
-  const sessionId = transport.sessionId;
-  
-  const server = createHotelAvailabilityServer();
-
-  sessions.set(sessionId, { server, transport });
-
-  transport.onclose = async () => {
-    sessions.delete(sessionId);
-    await server.close();
-  };
-
-  transport.onerror = (error) => {
-    console.error("SSE transport error", error);
-  };
-
-  try {
-    await server.connect(transport);
-  } catch (error) {
-    sessions.delete(sessionId);
-    console.error("Failed to start SSE session", error);
-    if (!res.headersSent) {
-      res.writeHead(500).end("Failed to establish SSE connection");
-    }
-  }
-}
-
-async function handlePostMessage(
-  req: IncomingMessage,
-  res: ServerResponse,
-  url: URL
-) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Headers", "content-type");
-  const sessionId = url.searchParams.get("sessionId");
-
-  if (!sessionId) {
-    res.writeHead(400).end("Missing sessionId query parameter");
-    return;
-  }
-
-  const session = sessions.get(sessionId);
-
-  if (!session) {
-    res.writeHead(404).end("Unknown session");
-    return;
-  }
-
-  try {
-    await session.transport.handlePostMessage(req, res);
-  } catch (error) {
-    console.error("Failed to process message", error);
-    if (!res.headersSent) {
-      res.writeHead(500).end("Failed to process message");
-    }
-  }
-}
-
-const portEnv = Number(process.env.PORT ?? 3001);
-const port = Number.isFinite(portEnv) ? portEnv : 3001;
-
-const httpServer = createServer(
-  async (req: IncomingMessage, res: ServerResponse) => {
-    if (!req.url) {
-      res.writeHead(400).end("Missing URL");
-      return;
-    }
-
-    const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
-
-    if (
-      req.method === "OPTIONS" &&
-      (url.pathname === ssePath || url.pathname === postPath)
-    ) {
-      res.writeHead(204, {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-        "Access-Control-Allow-Headers": "content-type",
-      });
-      res.end();
-      return;
-    }
-
-    if (req.method === "GET" && url.pathname === ssePath) {
-      await handleSseRequest(res);
-      return;
-    }
+      ],
+      structuredContent: {
+        searchParams: {
+          checkin: args.checkin,
+          checkout: args.checkout,
+          nights: args.nights,
+          location: args.location,
+          properties: args.properties,
+          adults: args.adults,
+          children: args.children,
+          rooms: args.rooms,
+        },
+        data,
+      },
+      _meta: cacheMeta(cached),
+    };
+  },
+});
 
-    if (req.method === "POST" && url.pathname === postPath) {
-      await handlePostMessage(req, res, url);
-      return;
+const hotelAvailabilityWidget = defineWidget({
+  id: "hotel-availability-search",
+  title: "Search Hotel Availability",
+  component: "hotel-availability-list",
+  outputSchema: toolOutputSchema,
+  parser: toolInputParser,
+  handler: async (args) => {
+    // Fetch hotel availability from the API, or the cache
+    let cached;
+    try {
+      const { bypassCache, ...params } = args;
+      const credentials = credentialsFromEnv();
+      cached = await propertyAvailabilityCache.get(
+        cacheKey(propertyAvailabilityQuery(params)),
+        () => fetchPropertyAvailability(credentials, params),
+        { bypass: bypassCache }
+      );
+    } catch (error) {
+      return upstreamErrorResult("hotel availability", error);
     }
+    const hotelData = cached.value;
 
-    res.writeHead(404).end("Not Found");
-  }
-);
-
-httpServer.on("clientError", (err: Error, socket) => {
-  console.error("HTTP client error", err);
-  socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return {
+      content: [
+        {
+          type: "text",
+          text: "Hotel availability search completed!",
+        },
+      ],
+      structuredContent: {
+        propertyCode: args.propertyCode,
+        searchParams: {
+          checkin: args.checkin,
+          checkout: args.checkout,
+          nights: args.nights,
+          adults: args.adults,
+          children: args.children,
+          rooms: args.rooms,
+        },
+        hotelData,
+      },
+      _meta: cacheMeta(cached),
+    };
+  },
 });
 
-httpServer.listen(port, () => {
-  console.log(`Hotel Availability MCP server listening on http://localhost:${port}`);
-  console.log(`  SSE stream: GET http://localhost:${port}${ssePath}`);
-  console.log(
-    `  Message post endpoint: POST http://localhost:${port}${postPath}?sessionId=...`
-  );
+const hotelAvailabilityServer = createWidgetServer({
+  name: "hotel-availability-node",
+  version: "0.1.0",
+  label: "Hotel Availability",
+  tools: [multiPropertyTool, hotelAvailabilityWidget],
 });
+
+await hotelAvailabilityServer.start(resolvePort(3001));
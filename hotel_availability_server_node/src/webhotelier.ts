@@ -0,0 +1,616 @@
+import { logger } from "widget-server-node";
+import { z } from "zod";
+
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  requestTimeoutMs,
+  resolveResilienceOptions,
+  retryDelayMs,
+} from "./resilience.js";
+
+// Base API URL for the WebHotelier API; the default is the bundled mock
+// (`pnpm mock`).
+const DEFAULT_API_BASE_URL = "http://localhost:8097";
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/**
+ * WEBHOTELIER_BASE_URL, or the mock. Requests carry Basic-auth credentials, so
+ * anything but a local URL must use https.
+ */
+function resolveApiBaseUrl(): string {
+  const raw = process.env.WEBHOTELIER_BASE_URL?.trim() || DEFAULT_API_BASE_URL;
+  const url = new URL(raw);
+  const isLocal = url.protocol === "http:" && LOCAL_HOSTNAMES.has(url.hostname);
+  if (url.protocol !== "https:" && !isLocal) {
+    throw new Error(
+      `WEBHOTELIER_BASE_URL must be an https URL, or http on localhost; got ${raw}`
+    );
+  }
+  return raw.replace(/\/+$/, "");
+}
+
+const API_BASE_URL = resolveApiBaseUrl();
+
+export type WebHotelierCredentials = {
+  username: string;
+  password: string;
+};
+
+/**
+ * Credentials configured for this deployment through WEBHOTELIER_USERNAME and
+ * WEBHOTELIER_PASSWORD. They are read on each call so that listing tools works
+ * without them, and are never part of a tool's arguments or logs.
+ */
+export function credentialsFromEnv(): WebHotelierCredentials {
+  const username = process.env.WEBHOTELIER_USERNAME;
+  const password = process.env.WEBHOTELIER_PASSWORD;
+  if (!username || !password) {
+    throw new WebHotelierError(
+      "WebHotelier credentials are not configured on the server. Set WEBHOTELIER_USERNAME and WEBHOTELIER_PASSWORD.",
+      "unconfigured"
+    );
+  }
+  return { username, password };
+}
+
+// Every response carries these, including HTTP 200 responses that report an
+// error. "OK" means success.
+const statusFields = {
+  error_code: z.string().optional(),
+  error_msg: z.string().optional(),
+  http_code: z.number().optional(),
+};
+
+const statusSchema = z.object(statusFields).passthrough();
+
+// Responses carry more fields than the tools and widgets read, so the schemas
+// pin down those fields and keep the rest.
+export const rateSchema = z
+  .object({
+    id: z.union([z.number(), z.string()]),
+    room: z.string(),
+    rate: z.string().optional(),
+    rate_desc: z.string().optional(),
+    board: z.number().optional(),
+    status: z.string().optional(),
+    status_descr: z.string().optional(),
+    remaining: z.number().optional(),
+    pricing: z
+      .object({
+        price: z.number().optional(),
+        discount: z.number().optional(),
+        stay: z.number().optional(),
+      })
+      .passthrough()
+      .optional(),
+    payment_policy: z.string().optional(),
+    cancellation_policy: z.string().optional(),
+    labels: z
+      .array(z.object({ title: z.string().optional() }).passthrough())
+      .optional(),
+    days: z
+      .array(
+        z
+          .object({
+            date: z.string(),
+            price: z.number(),
+            min_stay: z.number().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    url: z
+      .object({
+        photo: z.string().optional(),
+        photoM: z.string().optional(),
+        engine: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+/** `GET /manage/availability`: rates for a single property. */
+export const propertyAvailabilitySchema = z
+  .object({
+    ...statusFields,
+    data: z
+      .object({
+        name: z.string().optional(),
+        code: z.string().optional(),
+        currency: z.string().optional(),
+        url: z
+          .object({
+            photo: z.string().optional(),
+            photoM: z.string().optional(),
+            website: z.string().optional(),
+          })
+          .passthrough()
+          .optional(),
+        rates: z.array(rateSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export const hotelSchema = z
+  .object({
+    code: z.string(),
+    name: z.string(),
+    rating: z.number().optional(),
+    currency: z.string().optional(),
+    location: z
+      .object({
+        lat: z.number().optional(),
+        lon: z.number().optional(),
+        name: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    rates: z.array(rateSchema).optional(),
+  })
+  .passthrough();
+
+/** `GET /availability`: properties with availability for a search. */
+export const multiPropertyAvailabilitySchema = z
+  .object({
+    ...statusFields,
+    data: z
+      .object({ hotels: z.array(hotelSchema).optional() })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export type Rate = z.infer<typeof rateSchema>;
+export type PropertyAvailability = z.infer<typeof propertyAvailabilitySchema>;
+export type Hotel = z.infer<typeof hotelSchema>;
+export type MultiPropertyAvailability = z.infer<
+  typeof multiPropertyAvailabilitySchema
+>;
+
+export type WebHotelierErrorReason =
+  /** The server has no credentials to send. */
+  | "unconfigured"
+  /** The request never got a response. */
+  | "network"
+  /** No response within the timeout. */
+  | "timeout"
+  /** Recent requests kept failing, so this one was not sent. */
+  | "circuit_open"
+  /** HTTP 401: the credentials were rejected. */
+  | "auth"
+  /** HTTP 403: the account may not use this endpoint, or is over quota. */
+  | "forbidden"
+  /** Any other non-2xx status. */
+  | "http"
+  /** A response whose `error_code` is not "OK". */
+  | "api"
+  /** A response that does not match the endpoint's schema. */
+  | "invalid_response";
+
+/** What a tool reports about a failed call, in `_meta["webhotelier/error"]`. */
+export type WebHotelierErrorDetails = {
+  reason: WebHotelierErrorReason;
+  message: string;
+  /** Whether the same call may succeed if it is made again later. */
+  retryable: boolean;
+  attempts: number;
+  status?: number;
+  errorCode?: string;
+  retryAfterMs?: number;
+};
+
+export class WebHotelierError extends Error {
+  readonly reason: WebHotelierErrorReason;
+  /** HTTP status, or for "api" errors the `http_code` the body reports. */
+  readonly status: number | undefined;
+  /** WebHotelier `error_code`, when the response carried one. */
+  readonly errorCode: string | undefined;
+  /** For "circuit_open": time until the circuit lets a request through. */
+  readonly retryAfterMs: number | undefined;
+  /** Requests sent before giving up. */
+  attempts = 1;
+
+  constructor(
+    message: string,
+    reason: WebHotelierErrorReason,
+    {
+      status,
+      errorCode,
+      retryAfterMs,
+      cause,
+    }: {
+      status?: number;
+      errorCode?: string;
+      retryAfterMs?: number;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, { cause });
+    this.name = "WebHotelierError";
+    this.reason = reason;
+    this.status = status;
+    this.errorCode = errorCode;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /**
+   * Failures of the upstream service rather than of this request: no
+   * response, rate limiting, or a 5xx (WebHotelier may report one with
+   * HTTP 200 and `http_code`). These are retried and trip the circuit.
+   */
+  get transient(): boolean {
+    switch (this.reason) {
+      case "network":
+      case "timeout":
+        return true;
+      case "http":
+      case "api":
+        return (
+          this.status === 429 || (this.status !== undefined && this.status >= 500)
+        );
+      default:
+        return false;
+    }
+  }
+
+  toDetails(): WebHotelierErrorDetails {
+    return {
+      reason: this.reason,
+      message: this.message,
+      retryable: this.transient || this.reason === "circuit_open",
+      attempts: this.attempts,
+      ...(this.status === undefined ? {} : { status: this.status }),
+      ...(this.errorCode === undefined ? {} : { errorCode: this.errorCode }),
+      ...(this.retryAfterMs === undefined
+        ? {}
+        : { retryAfterMs: this.retryAfterMs }),
+    };
+  }
+}
+
+const resilience = resolveResilienceOptions();
+const circuitBreaker = createCircuitBreaker({
+  ...resilience,
+  timeoutMs: requestTimeoutMs(resilience),
+});
+
+const isTransientError = (error: unknown) =>
+  error instanceof WebHotelierError && error.transient;
+
+type QueryValue = string | number | boolean | undefined;
+
+/** Query parameters as sent; undefined values are left out. */
+export type WebHotelierQuery = Record<string, QueryValue>;
+
+type RequestOptions = {
+  credentials: WebHotelierCredentials;
+  /**
+   * Error codes that are results rather than failures, e.g. NO_AVAILABILITY
+   * for a search.
+   */
+  acceptErrorCodes?: readonly string[];
+};
+
+/**
+ * Sends an authenticated GET to the WebHotelier API and validates the body
+ * with `schema`. Undefined query values are skipped; booleans are sent as
+ * "1"/"0". Transient failures are retried with backoff, and the request as a
+ * whole goes through a shared circuit breaker. Throws a WebHotelierError on any
+ * failure.
+ */
+export async function webHotelierRequest<S extends z.ZodTypeAny>(
+  path: string,
+  query: WebHotelierQuery,
+  schema: S,
+  { credentials, acceptErrorCodes = [] }: RequestOptions
+): Promise<z.output<S>> {
+  const queryParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    queryParams.append(
+      key,
+      typeof value === "boolean" ? (value ? "1" : "0") : String(value)
+    );
+  }
+  const url = `${API_BASE_URL}${path}?${queryParams.toString()}`;
+  const authorization = Buffer.from(
+    `${credentials.username}:${credentials.password}`
+  ).toString("base64");
+
+  // GETs are idempotent, so transient failures are safe to retry.
+  const sendWithRetries = async (): Promise<unknown> => {
+    for (let attempts = 1; ; attempts++) {
+      try {
+        return await sendRequest(url, authorization, acceptErrorCodes);
+      } catch (error) {
+        if (error instanceof WebHotelierError) {
+          error.attempts = attempts;
+        }
+        if (!isTransientError(error) || attempts >= resilience.maxAttempts) {
+          throw error;
+        }
+        const delay = retryDelayMs(attempts, resilience);
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(
+          `${path} failed (${message}); retrying in ${delay}ms (${attempts}/${resilience.maxAttempts})`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  };
+
+  // The breaker sees the request as a whole: retries that end in a transient
+  // error count as one failure.
+  let body: unknown;
+  try {
+    body = await circuitBreaker.run(sendWithRetries, isTransientError);
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      throw new WebHotelierError(
+        `The WebHotelier API is failing; not retrying for ${Math.ceil(
+          error.retryAfterMs / 1000
+        )}s.`,
+        "circuit_open",
+        { retryAfterMs: error.retryAfterMs }
+      );
+    }
+    throw error;
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new WebHotelierError(
+      `Unexpected response from ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+        .join("; ")}`,
+      "invalid_response",
+      { cause: parsed.error }
+    );
+  }
+  return parsed.data;
+}
+
+/** One request, aborted after the configured timeout. Returns the JSON body. */
+async function sendRequest(
+  url: string,
+  authorization: string,
+  acceptErrorCodes: readonly string[]
+): Promise<unknown> {
+  logger.info(`Fetching ${url}`);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), resilience.timeoutMs);
+
+  let response: Response;
+  let body: unknown;
+  try {
+    response = await fetch(url, {
+      method: "GET",
+      headers: {
+        Authorization: `Basic ${authorization}`,
+        Accept: "application/json",
+      },
+      signal: controller.signal,
+    });
+    logger.info(`Response status: ${response.status}`);
+    body = await response.json().catch((error: unknown) => {
+      // An abort while reading the body is a timeout, not a malformed body.
+      if (controller.signal.aborted) throw error;
+      return undefined;
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new WebHotelierError(
+        `The WebHotelier API did not respond within ${resilience.timeoutMs}ms`,
+        "timeout",
+        { cause: error }
+      );
+    }
+    throw new WebHotelierError(
+      `Could not reach the WebHotelier API: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      "network",
+      { cause: error }
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const status = statusSchema.safeParse(body);
+  const errorMsg = status.success ? status.data.error_msg : undefined;
+  const errorCode = status.success ? status.data.error_code : undefined;
+
+  if (response.status === 401) {
+    throw new WebHotelierError(
+      "Authentication failed. Please check your credentials.",
+      "auth",
+      { status: 401, errorCode }
+    );
+  }
+
+  if (response.status === 403) {
+    throw new WebHotelierError(
+      `Access forbidden: ${errorMsg || "Invalid credentials or quota exceeded"}`,
+      "forbidden",
+      { status: 403, errorCode }
+    );
+  }
+
+  if (!response.ok) {
+    throw new WebHotelierError(
+      `API error: ${errorMsg || errorCode || response.statusText} (HTTP ${response.status})`,
+      "http",
+      { status: response.status, errorCode }
+    );
+  }
+
+  // WebHotelier API returns HTTP 200 even on errors - check error_code field
+  if (
+    errorCode &&
+    errorCode !== "OK" &&
+    !acceptErrorCodes.includes(errorCode)
+  ) {
+    const httpCode = (status.success && status.data.http_code) || response.status;
+    throw new WebHotelierError(
+      `API error: ${errorMsg || errorCode} (HTTP ${httpCode})`,
+      "api",
+      { status: httpCode, errorCode }
+    );
+  }
+
+  return body;
+}
+
+function addDays(date: string, days: number): string {
+  // In UTC throughout; mixing in local time is off by a day across DST changes
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+export type PropertyAvailabilityQuery = {
+  propertyCode: string;
+  checkin: string;
+  checkout?: string;
+  nights?: number;
+  adults?: number;
+  children?: number;
+  rooms?: number;
+  breakdown?: boolean;
+  offline?: boolean;
+};
+
+/** The `/manage/availability` query for `params`. */
+export function propertyAvailabilityQuery(
+  params: PropertyAvailabilityQuery
+): WebHotelierQuery {
+  // URL format: /manage/availability?htl_code=XXX&from=YYYY-MM-DD&to=YYYY-MM-DD
+  return {
+    htl_code: params.propertyCode,
+    from: params.checkin,
+    // Without a checkout, stay `nights` nights (default 1)
+    to: params.checkout ?? addDays(params.checkin, params.nights || 1),
+    adults: params.adults || undefined,
+    children: params.children || undefined,
+    rooms: params.rooms || undefined,
+    breakdown: params.breakdown,
+    offline: params.offline,
+  };
+}
+
+/** Rates for one property. Fails on any error_code other than "OK". */
+export function fetchPropertyAvailability(
+  credentials: WebHotelierCredentials,
+  params: PropertyAvailabilityQuery
+): Promise<PropertyAvailability> {
+  return webHotelierRequest(
+    "/manage/availability",
+    propertyAvailabilityQuery(params),
+    propertyAvailabilitySchema,
+    { credentials }
+  );
+}
+
+export type MultiPropertyAvailabilityQuery = {
+  checkin: string;
+  checkout?: string;
+  nights?: number;
+  location?: string;
+  properties?: string;
+  lat?: number;
+  lon?: number;
+  radius?: number;
+  lat1?: number;
+  lon1?: number;
+  lat2?: number;
+  lon2?: number;
+  region?: string;
+  adults?: number;
+  children?: number;
+  rooms?: number;
+  name?: string;
+  rating?: string;
+  board?: string;
+  sort_by?: "DISTANCE" | "NAME" | "POPULARITY" | "PRICE";
+  sort_order?: "ASC" | "DESC";
+  max_properties?: number;
+  max_rates?: number;
+  max_room_rates?: number;
+  no_policies?: boolean;
+  include_noavl?: boolean;
+  payments?: boolean;
+};
+
+/** The `/availability` query for `params`. */
+export function multiPropertyAvailabilityQuery(
+  params: MultiPropertyAvailabilityQuery
+): WebHotelierQuery {
+  // Geolocation parameters are mutually exclusive: properties > location > coordinates
+  const geolocation = params.properties
+    ? { properties: params.properties }
+    : params.location
+      ? { location: params.location, region: params.region }
+      : params.lat !== undefined && params.lon !== undefined
+        ? { lat: params.lat, lon: params.lon, radius: params.radius || undefined }
+        : {};
+  const hasBoundingBox =
+    params.lat1 !== undefined &&
+    params.lon1 !== undefined &&
+    params.lat2 !== undefined &&
+    params.lon2 !== undefined;
+
+  // URL format: /availability?checkin=...&checkout=...&location=...
+  return {
+    checkin: params.checkin,
+    // `nights` is sent as the matching checkout, so both are the same query.
+    // With neither, the API picks the stay length.
+    checkout:
+      params.checkout ??
+      (params.nights ? addDays(params.checkin, params.nights) : undefined),
+    ...geolocation,
+    ...(hasBoundingBox
+      ? {
+          lat1: params.lat1,
+          lon1: params.lon1,
+          lat2: params.lat2,
+          lon2: params.lon2,
+        }
+      : {}),
+    adults: params.adults || undefined,
+    children: params.children || undefined,
+    rooms: params.rooms || undefined,
+    name: params.name || undefined,
+    rating: params.rating || undefined,
+    board: params.board || undefined,
+    sort_by: params.sort_by,
+    sort_order: params.sort_order,
+    max_properties: params.max_properties || undefined,
+    max_rates: params.max_rates || undefined,
+    max_room_rates: params.max_room_rates || undefined,
+    // These flags are only sent when set
+    no_policies: params.no_policies || undefined,
+    include_noavl: params.include_noavl || undefined,
+    payments: params.payments || undefined,
+  };
+}
+
+/**
+ * Properties with availability. NO_AVAILABILITY and NO_HOTELS_FOUND are
+ * returned as results, with their error_code, rather than thrown.
+ */
+export function fetchMultiPropertyAvailability(
+  credentials: WebHotelierCredentials,
+  params: MultiPropertyAvailabilityQuery
+): Promise<MultiPropertyAvailability> {
+  return webHotelierRequest(
+    "/availability",
+    multiPropertyAvailabilityQuery(params),
+    multiPropertyAvailabilitySchema,
+    { credentials, acceptErrorCodes: ["NO_AVAILABILITY", "NO_HOTELS_FOUND"] }
+  );
+}
@@ -1,400 +1,94 @@
 import {
-  createServer,
-  type IncomingMessage,
-  type ServerResponse,
-} from "node:http";
-import fs from "node:fs";
-import path from "node:path";
-import { URL, fileURLToPath } from "node:url";
-
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import {
-  CallToolRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ListResourcesRequestSchema,
-  ListToolsRequestSchema,
-  ReadResourceRequestSchema,
-  type CallToolRequest,
-  type ListResourceTemplatesRequest,
-  type ListResourcesRequest,
-  type ListToolsRequest,
-  type ReadResourceRequest,
-  type Resource,
-  type ResourceTemplate,
-  type Tool,
-} from "@modelcontextprotocol/sdk/types.js";
+  createWidgetServer,
+  defineWidget,
+  resolvePort,
+} from "widget-server-node";
 import { z } from "zod";
 
+const toolOutputSchema = {
+  type: "object",
+  properties: {
+    pizzaTopping: {
+      type: "string",
+      description: "Topping the widget was rendered for.",
+    },
+  },
+  required: ["pizzaTopping"],
+  additionalProperties: false,
+} as const;
+
+const toolInputParser = z.object({
+  pizzaTopping: z
+    .string()
+    .describe("Topping to mention when rendering the widget."),
+});
+
 type PizzazWidget = {
   id: string;
   title: string;
-  templateUri: string;
-  invoking: string;
-  invoked: string;
-  html: string;
+  component: string;
   responseText: string;
 };
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const ROOT_DIR = path.resolve(__dirname, "..", "..");
-const ASSETS_DIR = path.resolve(ROOT_DIR, "assets");
-
-function readWidgetHtml(componentName: string): string {
-  if (!fs.existsSync(ASSETS_DIR)) {
-    throw new Error(
-      `Widget assets not found. Expected directory ${ASSETS_DIR}. Run "pnpm run build" before starting the server.`
-    );
-  }
-
-  const directPath = path.join(ASSETS_DIR, `${componentName}.html`);
-  let htmlContents: string | null = null;
-
-  if (fs.existsSync(directPath)) {
-    htmlContents = fs.readFileSync(directPath, "utf8");
-  } else {
-    const candidates = fs
-      .readdirSync(ASSETS_DIR)
-      .filter(
-        (file) => file.startsWith(`${componentName}-`) && file.endsWith(".html")
-      )
-      .sort();
-    const fallback = candidates[candidates.length - 1];
-    if (fallback) {
-      htmlContents = fs.readFileSync(path.join(ASSETS_DIR, fallback), "utf8");
-    }
-  }
-
-  if (!htmlContents) {
-    throw new Error(
-      `Widget HTML for "${componentName}" not found in ${ASSETS_DIR}. Run "pnpm run build" to generate the assets.`
-    );
-  }
-
-  return htmlContents;
-}
-
-function widgetDescriptorMeta(widget: PizzazWidget) {
-  return {
-    "openai/outputTemplate": widget.templateUri,
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-    "openai/widgetAccessible": true,
-  } as const;
-}
-
-function widgetInvocationMeta(widget: PizzazWidget) {
-  return {
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-  } as const;
+function definePizzazWidget(widget: PizzazWidget) {
+  const { responseText, ...rest } = widget;
+
+  return defineWidget({
+    ...rest,
+    outputSchema: toolOutputSchema,
+    parser: toolInputParser,
+    handler: (args) => ({
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+      structuredContent: {
+        pizzaTopping: args.pizzaTopping,
+      },
+    }),
+  });
 }
 
-const widgets: PizzazWidget[] = [
-  {
+const widgets = [
+  definePizzazWidget({
     id: "pizza-map",
     title: "Show Pizza Map",
-    templateUri: "ui://widget/pizza-map.html",
-    invoking: "Hand-tossing a map",
-    invoked: "Served a fresh map",
-    html: readWidgetHtml("pizzaz"),
+    component: "pizzaz",
     responseText: "Rendered a pizza map!",
-  },
-  {
+  }),
+  definePizzazWidget({
     id: "pizza-carousel",
     title: "Show Pizza Carousel",
-    templateUri: "ui://widget/pizza-carousel.html",
-    invoking: "Carousel some spots",
-    invoked: "Served a fresh carousel",
-    html: readWidgetHtml("pizzaz-carousel"),
+    component: "pizzaz-carousel",
     responseText: "Rendered a pizza carousel!",
-  },
-  {
+  }),
+  definePizzazWidget({
     id: "pizza-albums",
     title: "Show Pizza Album",
-    templateUri: "ui://widget/pizza-albums.html",
-    invoking: "Hand-tossing an album",
-    invoked: "Served a fresh album",
-    html: readWidgetHtml("pizzaz-albums"),
+    component: "pizzaz-albums",
     responseText: "Rendered a pizza album!",
-  },
-  {
+  }),
+  definePizzazWidget({
     id: "pizza-list",
     title: "Show Pizza List",
-    templateUri: "ui://widget/pizza-list.html",
-    invoking: "Hand-tossing a list",
-    invoked: "Served a fresh list",
-    html: readWidgetHtml("pizzaz-list"),
+    component: "pizzaz-list",
     responseText: "Rendered a pizza list!",
-  },
-  {
+  }),
+  definePizzazWidget({
     id: "pizza-shop",
     title: "Open Pizzaz Shop",
-    templateUri: "ui://widget/pizza-shop.html",
-    invoking: "Opening the shop",
-    invoked: "Shop opened",
-    html: readWidgetHtml("pizzaz-shop"),
+    component: "pizzaz-shop",
     responseText: "Rendered the Pizzaz shop!",
-  },
+  }),
 ];
 
-const widgetsById = new Map<string, PizzazWidget>();
-const widgetsByUri = new Map<string, PizzazWidget>();
-
-widgets.forEach((widget) => {
-  widgetsById.set(widget.id, widget);
-  widgetsByUri.set(widget.templateUri, widget);
+const pizzazServer = createWidgetServer({
+  name: "pizzaz-node",
+  version: "0.1.0",
+  label: "Pizzaz",
+  tools: widgets,
 });
 
-const toolInputSchema = {
-  type: "object",
-  properties: {
-    pizzaTopping: {
-      type: "string",
-      description: "Topping to mention when rendering the widget.",
-    },
-  },
-  required: ["pizzaTopping"],
-  additionalProperties: false,
-} as const;
-
-const toolInputParser = z.object({
-  pizzaTopping: z.string(),
-});
-
-const tools: Tool[] = widgets.map((widget) => ({
-  name: widget.id,
-  description: widget.title,
-  inputSchema: toolInputSchema,
-  title: widget.title,
-  _meta: widgetDescriptorMeta(widget),
-  // To disable the approval prompt for the widgets
-  annotations: {
-    destructiveHint: false,
-    openWorldHint: false,
-    readOnlyHint: true,
-  },
-}));
-
-const resources: Resource[] = widgets.map((widget) => ({
-  uri: widget.templateUri,
-  name: widget.title,
-  description: `${widget.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetDescriptorMeta(widget),
-}));
-
-const resourceTemplates: ResourceTemplate[] = widgets.map((widget) => ({
-  uriTemplate: widget.templateUri,
-  name: widget.title,
-  description: `${widget.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetDescriptorMeta(widget),
-}));
-
-function createPizzazServer(): Server {
-  const server = new Server(
-    {
-      name: "pizzaz-node",
-      version: "0.1.0",
-    },
-    {
-      capabilities: {
-        resources: {},
-        tools: {},
-      },
-    }
-  );
-
-  server.setRequestHandler(
-    ListResourcesRequestSchema,
-    async (_request: ListResourcesRequest) => ({
-      resources,
-    })
-  );
-
-  server.setRequestHandler(
-    ReadResourceRequestSchema,
-    async (request: ReadResourceRequest) => {
-      const widget = widgetsByUri.get(request.params.uri);
-
-      if (!widget) {
-        throw new Error(`Unknown resource: ${request.params.uri}`);
-      }
-
-      return {
-        contents: [
-          {
-            uri: widget.templateUri,
-            mimeType: "text/html+skybridge",
-            text: widget.html,
-            _meta: widgetDescriptorMeta(widget),
-          },
-        ],
-      };
-    }
-  );
-
-  server.setRequestHandler(
-    ListResourceTemplatesRequestSchema,
-    async (_request: ListResourceTemplatesRequest) => ({
-      resourceTemplates,
-    })
-  );
-
-  server.setRequestHandler(
-    ListToolsRequestSchema,
-    async (_request: ListToolsRequest) => ({
-      tools,
-    })
-  );
-
-  server.setRequestHandler(
-    CallToolRequestSchema,
-    async (request: CallToolRequest) => {
-      const widget = widgetsById.get(request.params.name);
-
-      if (!widget) {
-        throw new Error(`Unknown tool: ${request.params.name}`);
-      }
-
-      const args = toolInputParser.parse(request.params.arguments ?? {});
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: widget.responseText,
-          },
-        ],
-        structuredContent: {
-          pizzaTopping: args.pizzaTopping,
-        },
-        _meta: widgetInvocationMeta(widget),
-      };
-    }
-  );
-
-  return server;
-}
-
-type SessionRecord = {
-  server: Server;
-  transport: SSEServerTransport;
-};
-
-const sessions = new Map<string, SessionRecord>();
-
-const ssePath = "/mcp";
-const postPath = "/mcp/messages";
-
-async function handleSseRequest(res: ServerResponse) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  const server = createPizzazServer();
-  const transport = new SSEServerTransport(postPath, res);
-  const sessionId = transport.sessionId;
-
-  sessions.set(sessionId, { server, transport });
-
-  transport.onclose = async () => {
-    sessions.delete(sessionId);
-    await server.close();
-  };
-
-  transport.onerror = (error) => {
-    console.error("SSE transport error", error);
-  };
-
-  try {
-    await server.connect(transport);
-  } catch (error) {
-    sessions.delete(sessionId);
-    console.error("Failed to start SSE session", error);
-    if (!res.headersSent) {
-      res.writeHead(500).end("Failed to establish SSE connection");
-    }
-  }
-}
-
-async function handlePostMessage(
-  req: IncomingMessage,
-  res: ServerResponse,
-  url: URL
-) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Headers", "content-type");
-  const sessionId = url.searchParams.get("sessionId");
-
-  if (!sessionId) {
-    res.writeHead(400).end("Missing sessionId query parameter");
-    return;
-  }
-
-  const session = sessions.get(sessionId);
-
-  if (!session) {
-    res.writeHead(404).end("Unknown session");
-    return;
-  }
-
-  try {
-    await session.transport.handlePostMessage(req, res);
-  } catch (error) {
-    console.error("Failed to process message", error);
-    if (!res.headersSent) {
-      res.writeHead(500).end("Failed to process message");
-    }
-  }
-}
-
-const portEnv = Number(process.env.PORT ?? 8000);
-const port = Number.isFinite(portEnv) ? portEnv : 8000;
-
-const httpServer = createServer(
-  async (req: IncomingMessage, res: ServerResponse) => {
-    if (!req.url) {
-      res.writeHead(400).end("Missing URL");
-      return;
-    }
-
-    const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
-
-    if (
-      req.method === "OPTIONS" &&
-      (url.pathname === ssePath || url.pathname === postPath)
-    ) {
-      res.writeHead(204, {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-        "Access-Control-Allow-Headers": "content-type",
-      });
-      res.end();
-      return;
-    }
-
-    if (req.method === "GET" && url.pathname === ssePath) {
-      await handleSseRequest(res);
-      return;
-    }
-
-    if (req.method === "POST" && url.pathname === postPath) {
-      await handlePostMessage(req, res, url);
-      return;
-    }
-
-    res.writeHead(404).end("Not Found");
-  }
-);
-
-httpServer.on("clientError", (err: Error, socket) => {
-  console.error("HTTP client error", err);
-  socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
-});
-
-httpServer.listen(port, () => {
-  console.log(`Pizzaz MCP server listening on http://localhost:${port}`);
-  console.log(`  SSE stream: GET http://localhost:${port}${ssePath}`);
-  console.log(
-    `  Message post endpoint: POST http://localhost:${port}${postPath}?sessionId=...`
-  );
-});
+await pizzazServer.start(resolvePort(8000));
@@ -1,34 +1,20 @@
-import React from "react";
 import { createRoot } from "react-dom/client";
-import { useOpenAiGlobal } from "../use-openai-global";
+import { useWidgetProps } from "../use-widget-props";
+import type { ToolOutputs } from "../tool-types/hotel-availability";
 
-// Mock data for browser testing - will be overridden by MCP server data
-const mockData = {
-  hotelData: {
-    data: {
-      name: "Demo Hotel",
-      code: "DEMO",
-      currency: "EUR",
-      rates: [
-        { id: 1, room: "Standard Double Room", rate: "Best Available Rate", board: 1, status: "AVL", pricing: { price: 120, discount: 0 }, remaining: 3 },
-        { id: 2, room: "Superior Suite", rate: "Non-Refundable", board: 0, status: "AVL", pricing: { price: 180, discount: 20 }, remaining: 1 },
-        { id: 3, room: "Deluxe Room", rate: "Flexible Rate", board: 19, status: "AVL", pricing: { price: 150, discount: 0 }, remaining: 5 },
-      ],
-    },
-  },
-  searchParams: { checkin: "2026-02-10", checkout: "2026-02-12", adults: 2 },
-};
+type HotelAvailabilityOutput = ToolOutputs["hotel-availability-search"];
 
 function App() {
-  const widgetState = useOpenAiGlobal("widgetState");
-  
-  // Use mock data if no real data is available (for browser testing)
-  const data = widgetState || mockData;
-  const hotelData = data?.hotelData?.data || null;
-  const searchParams = data?.searchParams || {};
-  const rates = hotelData?.rates || [];
+  const toolOutput = useWidgetProps<Partial<HotelAvailabilityOutput>>({});
+  const hotelData = toolOutput.hotelData?.data ?? null;
+  const searchParams: Partial<HotelAvailabilityOutput["searchParams"]> =
+    toolOutput.searchParams ?? {};
+  const rates = hotelData?.rates ?? [];
 
-  const formatCurrency = (amount, currency) => {
+  const formatCurrency = (
+    amount: number | undefined,
+    currency: string | undefined
+  ) => {
     if (!amount) return "–";
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -36,8 +22,9 @@ function App() {
     }).format(amount);
   };
 
-  const getBoardTypeName = (boardId) => {
-    const boardTypes = {
+  const getBoardTypeName = (boardId: number | undefined) => {
+    if (boardId === undefined) return "";
+    const boardTypes: Record<number, string> = {
       0: "Room Only",
       1: "B&B",
       2: "Half Board",
@@ -108,7 +95,7 @@ function App() {
                     ) : (
                       <span className="text-red-600 text-xs font-medium">{rate.status || "N/A"}</span>
                     )}
-                    {rate.remaining > 0 && rate.remaining <= 5 && (
+                    {rate.remaining !== undefined && rate.remaining > 0 && rate.remaining <= 5 && (
                       <div className="text-xs text-orange-500">{rate.remaining} left</div>
                     )}
                   </div>
@@ -118,9 +105,9 @@ function App() {
                     <div className="font-semibold text-blue-600">
                       {formatCurrency(rate.pricing?.price, hotelData?.currency)}
                     </div>
-                    {rate.pricing?.discount > 0 && (
+                    {(rate.pricing?.discount ?? 0) > 0 && (
                       <div className="text-xs text-green-600">
-                        Save {formatCurrency(rate.pricing.discount, hotelData?.currency)}
+                        Save {formatCurrency(rate.pricing?.discount, hotelData?.currency)}
                       </div>
                     )}
                   </div>
@@ -145,4 +132,9 @@ function App() {
   );
 }
 
-createRoot(document.getElementById("hotel-availability-list-root")).render(<App />);
+const rootElement = document.getElementById("hotel-availability-list-root");
+if (!rootElement) {
+  throw new Error("Missing hotel-availability-list-root element");
+}
+
+createRoot(rootElement).render(<App />);
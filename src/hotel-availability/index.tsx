@@ -1,22 +1,27 @@
-import React, { useState } from "react";
+import { useState } from "react";
 import { createRoot } from "react-dom/client";
-import { useOpenAiGlobal } from "../use-openai-global";
+import { useWidgetProps } from "../use-widget-props";
 import { useMaxHeight } from "../use-max-height";
 import { Calendar, Users, Bed, MapPin, AlertCircle } from "lucide-react";
 import { Button } from "@openai/apps-sdk-ui/components/Button";
+import type { ToolOutputs } from "../tool-types/hotel-availability";
+
+type HotelAvailabilityOutput = ToolOutputs["hotel-availability-search"];
+type Rate = NonNullable<
+  NonNullable<HotelAvailabilityOutput["hotelData"]["data"]>["rates"]
+>[number];
 
 export default function HotelAvailability() {
-  const displayMode = useOpenAiGlobal("displayMode");
   const maxHeight = useMaxHeight() ?? undefined;
-  const widgetState = useOpenAiGlobal("widgetState");
-  
-  const hotelData = widgetState?.hotelData || null;
-  const propertyCode = widgetState?.propertyCode || "DEMO";
-  const searchParams = widgetState?.searchParams || {};
+  const toolOutput = useWidgetProps<Partial<HotelAvailabilityOutput>>({});
+
+  const data = toolOutput.hotelData?.data ?? null;
+  const searchParams: Partial<HotelAvailabilityOutput["searchParams"]> =
+    toolOutput.searchParams ?? {};
 
-  const [selectedRate, setSelectedRate] = useState(null);
+  const [selectedRate, setSelectedRate] = useState<Rate["id"] | null>(null);
 
-  const formatDate = (dateString) => {
+  const formatDate = (dateString: string | undefined) => {
     if (!dateString) return "";
     const date = new Date(dateString);
     return date.toLocaleDateString("en-US", { 
@@ -27,7 +32,10 @@ export default function HotelAvailability() {
     });
   };
 
-  const formatCurrency = (amount, currency) => {
+  const formatCurrency = (
+    amount: number | undefined,
+    currency: string | undefined
+  ) => {
     if (!amount) return "N/A";
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -35,8 +43,8 @@ export default function HotelAvailability() {
     }).format(amount);
   };
 
-  const getBoardTypeName = (boardId) => {
-    const boardTypes = {
+  const getBoardTypeName = (boardId: number) => {
+    const boardTypes: Record<number, string> = {
       0: "Room Only",
       1: "Bed & Breakfast",
       2: "Half Board",
@@ -47,7 +55,7 @@ export default function HotelAvailability() {
     return boardTypes[boardId] || "Not specified";
   };
 
-  if (!hotelData) {
+  if (!data) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-50">
         <div className="text-center p-8">
@@ -58,8 +66,6 @@ export default function HotelAvailability() {
     );
   }
 
-  const { data } = hotelData;
-
   return (
     <div 
       className="bg-gray-50 overflow-y-auto"
@@ -164,7 +170,7 @@ export default function HotelAvailability() {
                       )}
 
                       {/* Remaining Rooms */}
-                      {rate.remaining > 0 && (
+                      {(rate.remaining ?? 0) > 0 && (
                         <p className="mt-2 text-sm text-orange-600 font-medium">
                           Only {rate.remaining} room(s) left!
                         </p>
@@ -173,20 +179,20 @@ export default function HotelAvailability() {
 
                     {/* Pricing */}
                     <div className="text-right ml-4">
-                      {rate.pricing?.discount > 0 && (
+                      {rate.pricing?.discount && rate.pricing.stay !== undefined ? (
                         <p className="text-sm text-gray-400 line-through">
                           {formatCurrency(rate.pricing.stay + rate.pricing.discount, data.currency)}
                         </p>
-                      )}
+                      ) : null}
                       <p className="text-3xl font-bold text-blue-600">
                         {formatCurrency(rate.pricing?.price, data.currency)}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         Total for {searchParams.nights || 1} night(s)
                       </p>
-                      {rate.pricing?.discount > 0 && (
+                      {(rate.pricing?.discount ?? 0) > 0 && (
                         <p className="text-sm text-green-600 font-semibold mt-1">
-                          Save {formatCurrency(rate.pricing.discount, data.currency)}
+                          Save {formatCurrency(rate.pricing?.discount, data.currency)}
                         </p>
                       )}
                     </div>
@@ -254,7 +260,7 @@ export default function HotelAvailability() {
                               >
                                 <span className="text-gray-700">
                                   {formatDate(day.date)}
-                                  {day.min_stay > 1 && (
+                                  {(day.min_stay ?? 0) > 1 && (
                                     <span className="ml-2 text-xs text-gray-500">
                                       (Min stay: {day.min_stay} nights)
                                     </span>
@@ -271,6 +277,7 @@ export default function HotelAvailability() {
 
                       <Button
                         onClick={() => setSelectedRate(null)}
+                        color="secondary"
                         variant="ghost"
                         size="sm"
                         className="mt-2"
@@ -281,6 +288,7 @@ export default function HotelAvailability() {
                   ) : (
                     <Button
                       onClick={() => setSelectedRate(rate.id)}
+                      color="secondary"
                       variant="ghost"
                       size="sm"
                       className="mt-2"
@@ -299,7 +307,8 @@ export default function HotelAvailability() {
                         className="inline-block w-full"
                       >
                         <Button 
-                          variant="primary"
+                          color="primary"
+                          variant="solid"
                           className="w-full"
                         >
                           Book Now
@@ -0,0 +1,29 @@
+import type { WidgetPropsIssue } from "./use-widget-props";
+
+/** Shared fallback for `useWidgetProps(schema)` results with status "invalid". */
+export function InvalidWidgetData({
+  issues,
+  title = "This widget received data it can't display.",
+}: {
+  issues: WidgetPropsIssue[];
+  title?: string;
+}) {
+  return (
+    <div
+      role="alert"
+      className="antialiased w-full rounded-2xl border border-black/10 bg-white p-4 text-sm text-black"
+    >
+      <p className="font-medium">{title}</p>
+      <ul className="mt-2 list-disc pl-5 text-black/60">
+        {issues.map((issue, index) => (
+          <li key={index}>
+            <code className="font-mono text-xs">
+              {issue.path.length > 0 ? issue.path.map(String).join(".") : "toolOutput"}
+            </code>
+            : {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -19,14 +19,33 @@ import { Input } from "@openai/apps-sdk-ui/components/Input";
 import { Textarea } from "@openai/apps-sdk-ui/components/Textarea";
 import { useOpenAiGlobal } from "../use-openai-global";
 import { useWidgetState } from "../use-widget-state";
+import { useCallTool } from "../use-call-tool";
+import { useWidgetProps } from "../use-widget-props";
+import { InvalidWidgetData } from "../invalid-widget-data";
+import { z } from "zod";
 import type { DisplayMode, Theme } from "../types";
-
-type DemoContent = {
-  message: string;
-  accentColor?: string;
-  details?: string;
-  fromTool?: string;
-};
+import type { ToolInputs, ToolOutputs } from "../tool-types/kitchen-sink";
+
+// Both tools render through this template, so toolOutput may be either shape.
+type DemoOutput =
+  | ToolOutputs["kitchen-sink-show"]
+  | ToolOutputs["kitchen-sink-refresh"];
+type DemoContent = ToolOutputs["kitchen-sink-refresh"];
+
+const refreshOutputSchema = z.object({
+  message: z.string(),
+  accentColor: z.string().optional(),
+  details: z.string().optional(),
+  fromTool: z.string().optional(),
+});
+
+const demoOutputSchema: z.ZodType<DemoOutput> = z.union([
+  refreshOutputSchema.extend({
+    processedAt: z.string(),
+    echoed: z.string(),
+  }),
+  refreshOutputSchema,
+]);
 
 type DemoWidgetState = {
   note: string;
@@ -95,8 +114,7 @@ function PillRow({
 }
 
 export default function KitchenSinkLite() {
-  const toolOutput = (useOpenAiGlobal("toolOutput") ??
-    null) as DemoContent | null;
+  const toolOutput = useWidgetProps(demoOutputSchema);
   const toolInput = useOpenAiGlobal("toolInput") as Record<string, unknown>;
   const toolResponseMetadata = useOpenAiGlobal(
     "toolResponseMetadata"
@@ -120,9 +138,11 @@ export default function KitchenSinkLite() {
   const [refreshText, setRefreshText] = useState(
     "Ask the MCP server to refresh this widget."
   );
-  const [callResult, setCallResult] = useState<string | null>(null);
-  const [callError, setCallError] = useState<string | null>(null);
-  const [isCalling, setIsCalling] = useState(false);
+  const refreshTool = useCallTool<
+    ToolInputs["kitchen-sink-refresh"],
+    ToolOutputs["kitchen-sink-refresh"]
+  >("kitchen-sink-refresh");
+  const [followUpError, setFollowUpError] = useState<string | null>(null);
   const [displayModeResult, setDisplayModeResult] = useState<DisplayMode | "">(
     ""
   );
@@ -131,9 +151,10 @@ export default function KitchenSinkLite() {
   const [anyToolArgs, setAnyToolArgs] = useState(
     '{"message": "Hello from any tool"}'
   );
-  const [anyToolResult, setAnyToolResult] = useState<string | null>(null);
-  const [anyToolError, setAnyToolError] = useState<string | null>(null);
-  const [anyToolLoading, setAnyToolLoading] = useState(false);
+  const anyTool = useCallTool(anyToolName);
+  const [anyToolArgsError, setAnyToolArgsError] = useState<string | null>(
+    null
+  );
   const [fetchResult, setFetchResult] = useState<string | null>(null);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [modalResult, setModalResult] = useState<string | null>(null);
@@ -144,7 +165,7 @@ export default function KitchenSinkLite() {
   }, [widgetState?.note, widgetState?.highlight]);
 
   const content = useMemo(
-    () => toolOutput ?? fallbackContent,
+    () => (toolOutput.status === "ok" ? toolOutput.data : fallbackContent),
     [toolOutput]
   );
 
@@ -182,33 +203,10 @@ export default function KitchenSinkLite() {
   };
 
   const handleCallTool = async () => {
-    if (!window.openai?.callTool) {
-      setCallError("callTool is not available in this context.");
-      logEvent("callTool unavailable");
-      return;
-    }
-
-    setIsCalling(true);
-    setCallError(null);
-    setCallResult(null);
-    try {
-      const response = await window.openai.callTool("kitchen-sink-refresh", {
-        message: refreshText,
-      });
-      const serialized =
-        typeof response === "string"
-          ? response
-          : JSON.stringify(response, null, 2);
-      setCallResult(serialized);
-      logEvent('callTool("kitchen-sink-refresh") succeeded');
-    } catch (error) {
-      setCallError(
-        error instanceof Error ? error.message : "Failed to call tool"
-      );
-      logEvent('callTool("kitchen-sink-refresh") failed');
-    } finally {
-      setIsCalling(false);
-    }
+    const result = await refreshTool.call({ message: refreshText });
+    logEvent(
+      `callTool("kitchen-sink-refresh") ${result ? "succeeded" : "failed"}`
+    );
   };
 
   const handleRefreshWidgetStateView = () => {
@@ -224,7 +222,7 @@ export default function KitchenSinkLite() {
 
   const handleSendFollowUp = async () => {
     if (!window.openai?.sendFollowUpMessage) {
-      setCallError("sendFollowUpMessage is not available in this context.");
+      setFollowUpError("sendFollowUpMessage is not available in this context.");
       logEvent("sendFollowUpMessage unavailable");
       return;
     }
@@ -243,32 +241,20 @@ export default function KitchenSinkLite() {
   };
 
   const handleCallAnyTool = async () => {
-    if (!window.openai?.callTool) {
-      setAnyToolError("callTool is not available in this context.");
-      logEvent("callTool unavailable (any tool)");
-      return;
-    }
-    setAnyToolLoading(true);
-    setAnyToolError(null);
-    setAnyToolResult(null);
+    let parsed: Record<string, unknown>;
     try {
-      const parsed =
-        anyToolArgs.trim().length === 0 ? {} : JSON.parse(anyToolArgs);
-      const response = await window.openai.callTool(anyToolName, parsed);
-      const serialized =
-        typeof response === "string"
-          ? response
-          : JSON.stringify(response, null, 2);
-      setAnyToolResult(serialized);
-      logEvent(`callTool("${anyToolName}") succeeded`);
+      parsed = anyToolArgs.trim().length === 0 ? {} : JSON.parse(anyToolArgs);
     } catch (error) {
-      setAnyToolError(
-        error instanceof Error ? error.message : "Failed to call tool"
+      setAnyToolArgsError(
+        error instanceof Error ? error.message : "Invalid JSON arguments"
       );
-      logEvent(`callTool("${anyToolName}") failed`);
-    } finally {
-      setAnyToolLoading(false);
+      return;
     }
+    setAnyToolArgsError(null);
+    const result = await anyTool.call(parsed);
+    logEvent(
+      `callTool("${anyToolName}") ${result !== undefined ? "succeeded" : "failed"}`
+    );
   };
 
   const handleFetchDemo = async () => {
@@ -372,43 +358,47 @@ export default function KitchenSinkLite() {
             apiLabel="window.openai.toolOutput / structuredContent"
             description="What your MCP tool returned."
           >
-            <div className="flex flex-col gap-2">
-              <p className="text-xs uppercase tracking-[0.08em] text-secondary">message</p>
-              <p
-                className="text-lg font-semibold"
-                style={
-                  widgetState?.highlight
-                    ? {
-                        background: "rgba(99, 102, 241, 0.16)",
-                        padding: "8px 10px",
-                        borderRadius: "12px",
-                        border: "1px solid rgba(99, 102, 241, 0.3)",
-                      }
-                    : undefined
-                }
-              >
-                {content.message}
-              </p>
-              {content.details ? (
-                <p className="text-sm text-secondary leading-snug">{content.details}</p>
-              ) : null}
-              <div className="flex flex-wrap gap-2">
-                {widgetState?.highlight ? (
-                  <Badge variant="solid" color="primary" pill>
-                    Highlight on
-                  </Badge>
+            {toolOutput.status === "invalid" ? (
+              <InvalidWidgetData issues={toolOutput.issues} />
+            ) : (
+              <div className="flex flex-col gap-2">
+                <p className="text-xs uppercase tracking-[0.08em] text-secondary">message</p>
+                <p
+                  className="text-lg font-semibold"
+                  style={
+                    widgetState?.highlight
+                      ? {
+                          background: "rgba(99, 102, 241, 0.16)",
+                          padding: "8px 10px",
+                          borderRadius: "12px",
+                          border: "1px solid rgba(99, 102, 241, 0.3)",
+                        }
+                      : undefined
+                  }
+                >
+                  {content.message}
+                </p>
+                {content.details ? (
+                  <p className="text-sm text-secondary leading-snug">{content.details}</p>
                 ) : null}
-                <Badge variant="soft" color="secondary" pill>
-                  from tool: {content.fromTool ?? "n/a"}
-                </Badge>
-                <Badge variant="soft" color="info" pill>
-                  display: {displayMode}
-                </Badge>
-                <Badge variant="soft" color="info" pill>
-                  theme: {theme}
-                </Badge>
+                <div className="flex flex-wrap gap-2">
+                  {widgetState?.highlight ? (
+                    <Badge variant="solid" color="primary" pill>
+                      Highlight on
+                    </Badge>
+                  ) : null}
+                  <Badge variant="soft" color="secondary" pill>
+                    from tool: {content.fromTool ?? "n/a"}
+                  </Badge>
+                  <Badge variant="soft" color="info" pill>
+                    display: {displayMode}
+                  </Badge>
+                  <Badge variant="soft" color="info" pill>
+                    theme: {theme}
+                  </Badge>
+                </div>
               </div>
-            </div>
+            )}
           </Card>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
@@ -552,10 +542,10 @@ export default function KitchenSinkLite() {
                 wrapLongLines
               >{`window.openai.callTool("kitchen-sink-refresh", {\n  message: "${refreshText}"\n})`}</CodeBlock>
             </div>
-            <Button color="primary" onClick={handleCallTool} disabled={isCalling} className="w-fit">
-              {isCalling ? "Calling…" : "Call kitchen-sink-refresh"}
+            <Button color="primary" onClick={handleCallTool} disabled={refreshTool.isPending} className="w-fit">
+              {refreshTool.isPending ? "Calling…" : "Call kitchen-sink-refresh"}
             </Button>
-            {callResult ? (
+            {refreshTool.data ? (
               <div className="flex flex-col gap-1">
                 <span className="text-secondary uppercase tracking-[0.08em] text-[11px]">
                   structuredContent
@@ -566,11 +556,13 @@ export default function KitchenSinkLite() {
                   showLineNumbers={false}
                   wrapLongLines
                 >
-                  {callResult}
+                  {JSON.stringify(refreshTool.data, null, 2)}
                 </CodeBlock>
               </div>
             ) : null}
-            {callError ? <p className="text-sm text-red-600">{callError}</p> : null}
+            {refreshTool.error ? (
+              <p className="text-sm text-red-600">{refreshTool.error.message}</p>
+            ) : null}
           </div>
         </Card>
         <Card
@@ -594,22 +586,26 @@ export default function KitchenSinkLite() {
             <Button
               color="primary"
               onClick={handleCallAnyTool}
-              disabled={anyToolLoading}
+              disabled={anyTool.isPending}
               className="w-fit"
             >
-              {anyToolLoading ? "Calling…" : "Call tool"}
+              {anyTool.isPending ? "Calling…" : "Call tool"}
             </Button>
-            {anyToolResult ? (
+            {anyTool.data !== null ? (
               <CodeBlock
                 className="ks-code-block"
                 language="json"
                 showLineNumbers={false}
                 wrapLongLines
               >
-                {anyToolResult}
+                {JSON.stringify(anyTool.data, null, 2)}
               </CodeBlock>
             ) : null}
-            {anyToolError ? <p className="text-sm text-red-600">{anyToolError}</p> : null}
+            {anyToolArgsError ?? anyTool.error ? (
+              <p className="text-sm text-red-600">
+                {anyToolArgsError ?? anyTool.error?.message}
+              </p>
+            ) : null}
           </div>
         </Card>
       </div>
@@ -649,6 +645,9 @@ export default function KitchenSinkLite() {
             ) : (
               <p className="text-xs text-secondary">Current displayMode: {displayMode}</p>
             )}
+            {followUpError ? (
+              <p className="text-sm text-red-600">{followUpError}</p>
+            ) : null}
           </Card>
 
           <Card
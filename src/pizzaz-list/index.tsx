@@ -1,11 +1,15 @@
-import React from "react";
 import { createRoot } from "react-dom/client";
 import markers from "../pizzaz/markers.json";
 import { PlusCircle, Star } from "lucide-react";
 import { Button } from "@openai/apps-sdk-ui/components/Button";
 import { Image } from "@openai/apps-sdk-ui/components/Image";
+import { useWidgetProps } from "../use-widget-props";
+import type { ToolOutputs } from "../tool-types/pizzaz";
 
 function App() {
+  const { pizzaTopping } = useWidgetProps<Partial<ToolOutputs["pizza-list"]>>(
+    {}
+  );
   const places = markers?.places || [];
 
   return (
@@ -24,7 +28,9 @@ function App() {
               National Best Pizza List
             </div>
             <div className="text-sm text-black/60">
-              A ranking of the best pizzerias in the world
+              {pizzaTopping
+                ? `The best pizzerias in the world for ${pizzaTopping}`
+                : "A ranking of the best pizzerias in the world"}
             </div>
           </div>
           <div className="flex-auto hidden sm:flex justify-end pr-2">
@@ -112,4 +118,9 @@ function App() {
   );
 }
 
-createRoot(document.getElementById("pizzaz-list-root")).render(<App />);
+const rootElement = document.getElementById("pizzaz-list-root");
+if (!rootElement) {
+  throw new Error("Missing pizzaz-list-root element");
+}
+
+createRoot(rootElement).render(<App />);
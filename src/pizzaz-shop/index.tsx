@@ -16,10 +16,14 @@ import { useDisplayMode } from "../use-display-mode";
 import { useMaxHeight } from "../use-max-height";
 import { useOpenAiGlobal } from "../use-openai-global";
 import { useWidgetProps } from "../use-widget-props";
-import { useWidgetState } from "../use-widget-state";
+import {
+  useWidgetState,
+  type WidgetStateVersioning,
+} from "../use-widget-state";
 
 import { Button } from "@openai/apps-sdk-ui/components/Button";
 import { Image } from "@openai/apps-sdk-ui/components/Image";
+import { z } from "zod";
 
 type NutritionFact = {
   label: string;
@@ -46,6 +50,37 @@ type PizzazCartWidgetState = {
   selectedCartItemId?: string | null;
 };
 
+const cartItemSchema: z.ZodType<CartItem> = z.object({
+  id: z.string(),
+  name: z.string(),
+  price: z.number(),
+  description: z.string(),
+  shortDescription: z.string().optional(),
+  detailSummary: z.string().optional(),
+  nutritionFacts: z
+    .array(z.object({ label: z.string(), value: z.string() }))
+    .optional(),
+  highlights: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  quantity: z.number().int().nonnegative(),
+  image: z.string(),
+});
+
+// Bump the version and add a migration whenever PizzazCartWidgetState changes
+// shape, so carts saved by earlier releases still rehydrate.
+const widgetStateVersioning: WidgetStateVersioning<PizzazCartWidgetState> = {
+  version: 1,
+  schema: z.object({
+    state: z.literal("checkout").nullish(),
+    cartItems: z.array(cartItemSchema).optional(),
+    selectedCartItemId: z.string().nullish(),
+  }),
+  migrations: {
+    // Carts saved before versioning already have the version 1 shape.
+    0: (state) => state,
+  },
+};
+
 type PizzazCartWidgetProps = {
   cartItems?: CartItem[];
   widgetState?: Partial<PizzazCartWidgetState> | null;
@@ -515,7 +550,8 @@ function App() {
   const isFullscreen = displayMode === "fullscreen";
   const widgetProps = useWidgetProps<PizzazCartWidgetProps>(() => ({}));
   const [widgetState, setWidgetState] = useWidgetState<PizzazCartWidgetState>(
-    createDefaultWidgetState
+    createDefaultWidgetState,
+    widgetStateVersioning
   );
   const navigate = useNavigate();
   const location = useLocation();
@@ -0,0 +1,266 @@
+// Generated by codegen-tool-types.mts from hotel_availability_server_node. Do not edit.
+// Run `pnpm run codegen` after changing a tool's input or output schema.
+
+/** Search Hotel Availability */
+export type HotelAvailabilitySearchInput = {
+  /** Property code (e.g., 'DEMO') */
+  propertyCode?: string;
+  /**
+   * Check-in date in ISO 8601 format (YYYY-MM-DD)
+   * @pattern ^\d{4}-\d{2}-\d{2}$
+   */
+  checkin: string;
+  /**
+   * Check-out date in ISO 8601 format (YYYY-MM-DD). Optional if nights is provided.
+   * @pattern ^\d{4}-\d{2}-\d{2}$
+   */
+  checkout?: string;
+  /** Number of nights (1-30). Optional if checkout is provided. */
+  nights?: number;
+  /** Number of adults per room (optional) */
+  adults?: number;
+  /** Number of children per room (optional) */
+  children?: number;
+  /** Number of rooms (optional) */
+  rooms?: number;
+  /** Include daily price breakdown (optional) */
+  breakdown?: boolean;
+  /** Include unavailable rates (optional) */
+  offline?: boolean;
+  /** Skip cached results and fetch fresh availability (optional). Use when the user asks to refresh. */
+  bypassCache?: boolean;
+};
+
+export type HotelAvailabilitySearchOutput = {
+  propertyCode: string;
+  searchParams: {
+    checkin: string;
+    checkout?: string;
+    nights?: number;
+    adults?: number;
+    children?: number;
+    rooms?: number;
+  };
+  /** WebHotelier /manage/availability response */
+  hotelData: {
+    /** "OK" on success, or a WebHotelier error code */
+    error_code?: string;
+    error_msg?: string;
+    http_code?: number;
+    data?: {
+      name?: string;
+      code?: string;
+      currency?: string;
+      url?: {
+        photo?: string;
+        /** Medium-sized photo */
+        photoM?: string;
+        website?: string;
+        [key: string]: unknown;
+      };
+      rates?: Array<{
+        id: number | string;
+        /** Room type name */
+        room: string;
+        /** Rate plan name */
+        rate?: string;
+        rate_desc?: string;
+        /** Board type code */
+        board?: number;
+        /** "AVL" when bookable */
+        status?: string;
+        status_descr?: string;
+        remaining?: number;
+        pricing?: {
+          price?: number;
+          discount?: number;
+          stay?: number;
+          [key: string]: unknown;
+        };
+        payment_policy?: string;
+        cancellation_policy?: string;
+        labels?: Array<{
+          title?: string;
+          [key: string]: unknown;
+        }>;
+        /** Daily price breakdown, when requested */
+        days?: Array<{
+          date: string;
+          price: number;
+          min_stay?: number;
+          [key: string]: unknown;
+        }>;
+        url?: {
+          photo?: string;
+          /** Medium-sized photo */
+          photoM?: string;
+          /** Booking engine link */
+          engine?: string;
+          [key: string]: unknown;
+        };
+        [key: string]: unknown;
+      }>;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+};
+
+/** Multi-Property Availability Search */
+export type MultiPropertyAvailabilitySearchInput = {
+  /**
+   * Check-in date in ISO 8601 format (YYYY-MM-DD)
+   * @pattern ^\d{4}-\d{2}-\d{2}$
+   */
+  checkin: string;
+  /**
+   * Check-out date in ISO 8601 format (YYYY-MM-DD). Optional if nights is provided.
+   * @pattern ^\d{4}-\d{2}-\d{2}$
+   */
+  checkout?: string;
+  /** Number of nights (1-30). Optional if checkout is provided. */
+  nights?: number;
+  /** Location text for geocoding (e.g., 'Santorini', 'Athens') */
+  location?: string;
+  /** Comma-separated list of property codes (up to 300) */
+  properties?: string;
+  /** Latitude for radius search (-90 to 90) */
+  lat?: number;
+  /** Longitude for radius search (-180 to 180) */
+  lon?: number;
+  /** Search radius in kilometers (1-100). Required when using lat/lon. */
+  radius?: number;
+  /** Bottom-left latitude for bounding box search */
+  lat1?: number;
+  /** Bottom-left longitude for bounding box search */
+  lon1?: number;
+  /** Top-right latitude for bounding box search */
+  lat2?: number;
+  /** Top-right longitude for bounding box search */
+  lon2?: number;
+  /** ISO 3166-1-alpha-2 region code for geocoding bias (e.g., 'GR', 'US') */
+  region?: string;
+  /** Number of adults per room (optional) */
+  adults?: number;
+  /** Number of children per room (optional) */
+  children?: number;
+  /** Number of rooms (optional) */
+  rooms?: number;
+  /** Property name filter (supports substring search) */
+  name?: string;
+  /** Filter by rating/stars (e.g., '5' or '3,4,5') */
+  rating?: string;
+  /** Filter by board type (e.g., '19' or '3,19,21') */
+  board?: string;
+  /** Sort results by: DISTANCE, NAME, POPULARITY, or PRICE */
+  sort_by?: "DISTANCE" | "NAME" | "POPULARITY" | "PRICE";
+  /** Sort order: ASC or DESC */
+  sort_order?: "ASC" | "DESC";
+  /** Maximum properties to return (recommended: 50 or lower) */
+  max_properties?: number;
+  /** Maximum rates per property (recommended: 3 or lower) */
+  max_rates?: number;
+  /** Maximum rates per room type (recommended: 1) */
+  max_room_rates?: number;
+  /** Do not include rate policies in response */
+  no_policies?: boolean;
+  /** Include properties with no availability */
+  include_noavl?: boolean;
+  /** Include payments and cancellation fees */
+  payments?: boolean;
+  /** Skip cached results and fetch fresh availability (optional). Use when the user asks to refresh. */
+  bypassCache?: boolean;
+};
+
+export type MultiPropertyAvailabilitySearchOutput = {
+  searchParams: {
+    checkin: string;
+    checkout?: string;
+    nights?: number;
+    location?: string;
+    properties?: string;
+    adults?: number;
+    children?: number;
+    rooms?: number;
+  };
+  /** WebHotelier /availability response; error_code may be NO_AVAILABILITY or NO_HOTELS_FOUND */
+  data: {
+    /** "OK" on success, or a WebHotelier error code */
+    error_code?: string;
+    error_msg?: string;
+    http_code?: number;
+    data?: {
+      hotels?: Array<{
+        code: string;
+        name: string;
+        rating?: number;
+        currency?: string;
+        location?: {
+          lat?: number;
+          lon?: number;
+          name?: string;
+          [key: string]: unknown;
+        };
+        rates?: Array<{
+          id: number | string;
+          /** Room type name */
+          room: string;
+          /** Rate plan name */
+          rate?: string;
+          rate_desc?: string;
+          /** Board type code */
+          board?: number;
+          /** "AVL" when bookable */
+          status?: string;
+          status_descr?: string;
+          remaining?: number;
+          pricing?: {
+            price?: number;
+            discount?: number;
+            stay?: number;
+            [key: string]: unknown;
+          };
+          payment_policy?: string;
+          cancellation_policy?: string;
+          labels?: Array<{
+            title?: string;
+            [key: string]: unknown;
+          }>;
+          /** Daily price breakdown, when requested */
+          days?: Array<{
+            date: string;
+            price: number;
+            min_stay?: number;
+            [key: string]: unknown;
+          }>;
+          url?: {
+            photo?: string;
+            /** Medium-sized photo */
+            photoM?: string;
+            /** Booking engine link */
+            engine?: string;
+            [key: string]: unknown;
+          };
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      }>;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+};
+
+/** Tool arguments, keyed by tool name. */
+export type ToolInputs = {
+  "hotel-availability-search": HotelAvailabilitySearchInput;
+  "multi-property-availability-search": MultiPropertyAvailabilitySearchInput;
+};
+
+/** Tool `structuredContent`, keyed by tool name. */
+export type ToolOutputs = {
+  "hotel-availability-search": HotelAvailabilitySearchOutput;
+  "multi-property-availability-search": MultiPropertyAvailabilitySearchOutput;
+};
+
+export type ToolName = keyof ToolInputs;
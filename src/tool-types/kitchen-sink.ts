@@ -0,0 +1,58 @@
+// Generated by codegen-tool-types.mts from kitchen_sink_server_node. Do not edit.
+// Run `pnpm run codegen` after changing a tool's input or output schema.
+
+/** Refresh from widget */
+export type KitchenSinkRefreshInput = {
+  /** Message to echo back. */
+  message: string;
+};
+
+export type KitchenSinkRefreshOutput = {
+  /** Headline rendered by the widget. */
+  message: string;
+  /** Accent color (hex). */
+  accentColor?: string;
+  /** Supporting copy. */
+  details?: string;
+  /** Name of the tool that produced the payload. */
+  fromTool?: string;
+};
+
+/** Render kitchen sink widget */
+export type KitchenSinkShowInput = {
+  /** Message to render in the widget. */
+  message: string;
+  /** Optional accent color (hex). */
+  accentColor?: string;
+  /** Optional supporting copy to show under the headline. */
+  details?: string;
+};
+
+export type KitchenSinkShowOutput = {
+  /** Headline rendered by the widget. */
+  message: string;
+  /** Accent color (hex). */
+  accentColor?: string;
+  /** Supporting copy. */
+  details?: string;
+  /** Name of the tool that produced the payload. */
+  fromTool?: string;
+  /** ISO timestamp of when the tool ran. */
+  processedAt: string;
+  /** The message, uppercased. */
+  echoed: string;
+};
+
+/** Tool arguments, keyed by tool name. */
+export type ToolInputs = {
+  "kitchen-sink-refresh": KitchenSinkRefreshInput;
+  "kitchen-sink-show": KitchenSinkShowInput;
+};
+
+/** Tool `structuredContent`, keyed by tool name. */
+export type ToolOutputs = {
+  "kitchen-sink-refresh": KitchenSinkRefreshOutput;
+  "kitchen-sink-show": KitchenSinkShowOutput;
+};
+
+export type ToolName = keyof ToolInputs;
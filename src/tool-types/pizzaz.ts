@@ -0,0 +1,77 @@
+// Generated by codegen-tool-types.mts from pizzaz_server_node. Do not edit.
+// Run `pnpm run codegen` after changing a tool's input or output schema.
+
+/** Show Pizza Album */
+export type PizzaAlbumsInput = {
+  /** Topping to mention when rendering the widget. */
+  pizzaTopping: string;
+};
+
+export type PizzaAlbumsOutput = {
+  /** Topping the widget was rendered for. */
+  pizzaTopping: string;
+};
+
+/** Show Pizza Carousel */
+export type PizzaCarouselInput = {
+  /** Topping to mention when rendering the widget. */
+  pizzaTopping: string;
+};
+
+export type PizzaCarouselOutput = {
+  /** Topping the widget was rendered for. */
+  pizzaTopping: string;
+};
+
+/** Show Pizza List */
+export type PizzaListInput = {
+  /** Topping to mention when rendering the widget. */
+  pizzaTopping: string;
+};
+
+export type PizzaListOutput = {
+  /** Topping the widget was rendered for. */
+  pizzaTopping: string;
+};
+
+/** Show Pizza Map */
+export type PizzaMapInput = {
+  /** Topping to mention when rendering the widget. */
+  pizzaTopping: string;
+};
+
+export type PizzaMapOutput = {
+  /** Topping the widget was rendered for. */
+  pizzaTopping: string;
+};
+
+/** Open Pizzaz Shop */
+export type PizzaShopInput = {
+  /** Topping to mention when rendering the widget. */
+  pizzaTopping: string;
+};
+
+export type PizzaShopOutput = {
+  /** Topping the widget was rendered for. */
+  pizzaTopping: string;
+};
+
+/** Tool arguments, keyed by tool name. */
+export type ToolInputs = {
+  "pizza-albums": PizzaAlbumsInput;
+  "pizza-carousel": PizzaCarouselInput;
+  "pizza-list": PizzaListInput;
+  "pizza-map": PizzaMapInput;
+  "pizza-shop": PizzaShopInput;
+};
+
+/** Tool `structuredContent`, keyed by tool name. */
+export type ToolOutputs = {
+  "pizza-albums": PizzaAlbumsOutput;
+  "pizza-carousel": PizzaCarouselOutput;
+  "pizza-list": PizzaListOutput;
+  "pizza-map": PizzaMapOutput;
+  "pizza-shop": PizzaShopOutput;
+};
+
+export type ToolName = keyof ToolInputs;
@@ -25,7 +25,7 @@ export type OpenAiGlobals<
 
 // currently copied from types.ts in chatgpt/web-sandbox.
 // Will eventually use a public package.
-type API = {
+export type API = {
   callTool: CallTool;
   sendFollowUpMessage: (args: { prompt: string }) => Promise<void>;
   openExternal(payload: { href: string }): void;
@@ -72,7 +72,12 @@ export type RequestDisplayMode = (args: { mode: DisplayMode }) => Promise<{
 }>;
 
 export type CallToolResponse = {
+  /** Text content of the tool result, concatenated. */
   result: string;
+  structuredContent?: UnknownObject;
+  content?: unknown[];
+  _meta?: UnknownObject;
+  isError?: boolean;
 };
 
 /** Calling APIs */
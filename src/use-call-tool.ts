@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CallToolResponse } from "./types";
+
+export type CallToolErrorReason =
+  /** `window.openai.callTool` does not exist (e.g. outside a host). */
+  | "unavailable"
+  /** The tool ran and returned `isError: true`. */
+  | "tool"
+  /** The call itself failed or the response could not be parsed. */
+  | "failed";
+
+export class CallToolError extends Error {
+  readonly reason: CallToolErrorReason;
+  readonly response?: CallToolResponse;
+
+  constructor(
+    message: string,
+    reason: CallToolErrorReason,
+    response?: CallToolResponse,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "CallToolError";
+    this.reason = reason;
+    this.response = response;
+  }
+}
+
+export type UseCallToolOptions<TResult> = {
+  /**
+   * Turns a successful response into `data`. Defaults to the response's
+   * `structuredContent`, or its text `result` when there is none.
+   */
+  parse?: (response: CallToolResponse) => TResult;
+};
+
+export type UseCallToolResult<TArgs, TResult> = {
+  /**
+   * Calls the tool. Resolves with the parsed result, or `undefined` when the
+   * call failed (see `error`); it never rejects. A call with the same
+   * arguments as one still in flight joins it instead of calling again.
+   */
+  call: (args: TArgs) => Promise<TResult | undefined>;
+  /** Result of the latest successful call. */
+  data: TResult | null;
+  error: CallToolError | null;
+  isPending: boolean;
+  /** Clears the state. Responses to calls already in flight are ignored. */
+  reset: () => void;
+};
+
+type CallState<TResult> = {
+  data: TResult | null;
+  error: CallToolError | null;
+  isPending: boolean;
+};
+
+type InFlightCall<TResult> = {
+  id: number;
+  promise: Promise<TResult | undefined>;
+};
+
+const IDLE = { data: null, error: null, isPending: false } as const;
+
+function defaultParse<TResult>(response: CallToolResponse): TResult {
+  return (response.structuredContent ?? response.result) as TResult;
+}
+
+function toCallToolError(error: unknown, name: string): CallToolError {
+  if (error instanceof CallToolError) {
+    return error;
+  }
+  const message =
+    error instanceof Error ? error.message : `Failed to call ${name}`;
+  return new CallToolError(message, "failed", undefined, { cause: error });
+}
+
+export function useCallTool<
+  TArgs extends Record<string, unknown> = Record<string, unknown>,
+  TResult = unknown,
+>(
+  name: string,
+  options: UseCallToolOptions<TResult> = {}
+): UseCallToolResult<TArgs, TResult> {
+  const [state, setState] = useState<CallState<TResult>>(IDLE);
+
+  const mountedRef = useRef(false);
+  // Issues call ids; never goes backwards, so an id is never reused.
+  const nextCallIdRef = useRef(0);
+  // Only the most recent call may write its outcome to state.
+  const latestCallRef = useRef(0);
+  const inFlightRef = useRef(new Map<string, InFlightCall<TResult>>());
+  const parseRef = useRef(options.parse);
+  parseRef.current = options.parse;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const call = useCallback(
+    (args: TArgs): Promise<TResult | undefined> => {
+      const key = `${name}:${JSON.stringify(args)}`;
+      const inFlight = inFlightRef.current.get(key);
+      if (inFlight) {
+        latestCallRef.current = inFlight.id;
+        return inFlight.promise;
+      }
+
+      const id = ++nextCallIdRef.current;
+      latestCallRef.current = id;
+      const settle = (next: CallState<TResult>) => {
+        if (mountedRef.current && latestCallRef.current === id) {
+          setState(next);
+        }
+      };
+
+      if (typeof window === "undefined" || !window.openai?.callTool) {
+        settle({
+          data: null,
+          error: new CallToolError(
+            "callTool is not available in this context.",
+            "unavailable"
+          ),
+          isPending: false,
+        });
+        return Promise.resolve(undefined);
+      }
+
+      if (mountedRef.current) {
+        setState((prev) => ({ ...prev, error: null, isPending: true }));
+      }
+
+      let start!: (run: Promise<TResult | undefined>) => void;
+      const entry: InFlightCall<TResult> = {
+        id,
+        promise: new Promise((resolve) => {
+          start = resolve;
+        }),
+      };
+      // Registered before the tool is called, so that the cleanup below also
+      // runs after it when callTool throws synchronously.
+      inFlightRef.current.set(key, entry);
+
+      start(
+        (async () => {
+          try {
+            const raw: CallToolResponse | string =
+              await window.openai.callTool(name, args);
+            // Some hosts resolve with the text result alone.
+            const response = typeof raw === "string" ? { result: raw } : raw;
+            if (response.isError) {
+              throw new CallToolError(
+                response.result || `${name} returned an error`,
+                "tool",
+                response
+              );
+            }
+            const data = (parseRef.current ?? defaultParse<TResult>)(response);
+            settle({ data, error: null, isPending: false });
+            return data;
+          } catch (error) {
+            settle({
+              data: null,
+              error: toCallToolError(error, name),
+              isPending: false,
+            });
+            return undefined;
+          } finally {
+            if (inFlightRef.current.get(key) === entry) {
+              inFlightRef.current.delete(key);
+            }
+          }
+        })()
+      );
+
+      return entry.promise;
+    },
+    [name]
+  );
+
+  const reset = useCallback(() => {
+    latestCallRef.current = ++nextCallIdRef.current;
+    setState(IDLE);
+  }, []);
+
+  return { call, ...state, reset };
+}
@@ -1,14 +1,66 @@
+import { useEffect, useMemo } from "react";
+import { z } from "zod";
 import { useOpenAiGlobal } from "./use-openai-global";
 
+export type WidgetPropsIssue = z.core.$ZodIssue;
+
+/** `toolOutput` checked against a zod schema. */
+export type WidgetPropsResult<T> =
+  /** No tool output yet. */
+  | { status: "loading" }
+  | { status: "ok"; data: T }
+  | { status: "invalid"; issues: WidgetPropsIssue[]; error: z.ZodError };
+
+/**
+ * Validates `toolOutput` with `schema`. Render the `invalid` case (e.g. with
+ * `InvalidWidgetData`) instead of letting malformed data fail deep in render.
+ */
+export function useWidgetProps<S extends z.ZodType>(
+  schema: S
+): WidgetPropsResult<z.output<S>>;
 export function useWidgetProps<T extends Record<string, unknown>>(
   defaultState?: T | (() => T)
-): T {
-  const props = useOpenAiGlobal("toolOutput") as T;
+): T;
+export function useWidgetProps<T extends Record<string, unknown>>(
+  defaultStateOrSchema?: T | (() => T) | z.ZodType
+): T | WidgetPropsResult<unknown> {
+  const props = useOpenAiGlobal("toolOutput");
+  const schema =
+    defaultStateOrSchema instanceof z.ZodType ? defaultStateOrSchema : null;
+
+  const result = useMemo((): WidgetPropsResult<unknown> | null => {
+    if (!schema) {
+      return null;
+    }
+    if (props == null) {
+      return { status: "loading" };
+    }
+    const parsed = schema.safeParse(props);
+    return parsed.success
+      ? { status: "ok", data: parsed.data }
+      : { status: "invalid", issues: parsed.error.issues, error: parsed.error };
+  }, [schema, props]);
+
+  // An inline schema yields a new result every render; log each failure once.
+  const invalidReport =
+    result?.status === "invalid" ? z.prettifyError(result.error) : null;
+  useEffect(() => {
+    if (invalidReport !== null) {
+      console.error(
+        "toolOutput does not match the widget's schema:\n" + invalidReport
+      );
+    }
+  }, [invalidReport]);
+
+  if (result) {
+    return result;
+  }
 
+  const defaultState = defaultStateOrSchema as T | (() => T) | undefined;
   const fallback =
     typeof defaultState === "function"
       ? (defaultState as () => T | null)()
       : defaultState ?? null;
 
-  return props ?? fallback;
+  return (props as T) ?? fallback;
 }
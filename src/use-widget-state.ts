@@ -1,45 +1,141 @@
-import { useCallback, useEffect, useState, type SetStateAction } from "react";
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type SetStateAction,
+} from "react";
+import { z } from "zod";
 import { useOpenAiGlobal } from "./use-openai-global";
 import type { UnknownObject } from "./types";
 
+/** Key under which versioned widget state records its schema version. */
+export const WIDGET_STATE_VERSION_KEY = "__version";
+
+/** Upgrades state stored at one version to the next. */
+export type WidgetStateMigration = (state: UnknownObject) => UnknownObject;
+
+export type WidgetStateVersioning<T extends UnknownObject> = {
+  /** Current version, stamped on every state the widget writes. */
+  version: number;
+  /** Validates state at the current version when it is hydrated. */
+  schema: z.ZodType<T>;
+  /**
+   * `migrations[n]` upgrades state stored at version `n` to `n + 1`. State
+   * written before versioning was adopted counts as version 0.
+   */
+  migrations?: Record<number, WidgetStateMigration>;
+};
+
+/**
+ * Migrates and validates state from the host. Returns null when it cannot be
+ * used: written by a newer release, missing a migration, or invalid.
+ */
+function hydrateWidgetState<T extends UnknownObject>(
+  stored: UnknownObject,
+  { version, schema, migrations = {} }: WidgetStateVersioning<T>
+): T | null {
+  const { [WIDGET_STATE_VERSION_KEY]: storedVersion = 0, ...rest } = stored;
+  let state: UnknownObject = rest;
+
+  if (typeof storedVersion !== "number" || storedVersion > version) {
+    console.warn(
+      `Ignoring widget state with unknown version ${String(storedVersion)} (current: ${version})`
+    );
+    return null;
+  }
+
+  for (let from = storedVersion; from < version; from++) {
+    const migrate = migrations[from];
+    if (!migrate) {
+      console.warn(
+        `Ignoring widget state at version ${storedVersion}: no migration from version ${from}`
+      );
+      return null;
+    }
+    state = migrate(state);
+  }
+
+  const parsed = schema.safeParse(state);
+  if (!parsed.success) {
+    console.warn(
+      `Ignoring invalid widget state:\n${z.prettifyError(parsed.error)}`
+    );
+    return null;
+  }
+  return parsed.data;
+}
+
 export function useWidgetState<T extends UnknownObject>(
-  defaultState: T | (() => T)
+  defaultState: T | (() => T),
+  versioning?: WidgetStateVersioning<T>
 ): readonly [T, (state: SetStateAction<T>) => void];
 export function useWidgetState<T extends UnknownObject>(
-  defaultState?: T | (() => T | null) | null
+  defaultState?: T | (() => T | null) | null,
+  versioning?: WidgetStateVersioning<T>
 ): readonly [T | null, (state: SetStateAction<T | null>) => void];
 export function useWidgetState<T extends UnknownObject>(
-  defaultState?: T | (() => T | null) | null
+  defaultState?: T | (() => T | null) | null,
+  versioning?: WidgetStateVersioning<T>
 ): readonly [T | null, (state: SetStateAction<T | null>) => void] {
   const widgetStateFromWindow = useOpenAiGlobal("widgetState") as T;
 
+  const resolveDefault = () =>
+    typeof defaultState === "function"
+      ? defaultState()
+      : defaultState ?? null;
+
+  // Callers may pass the default and versioning inline; read the latest ones
+  // when syncing so a new object each render does not re-run the sync.
+  const resolveDefaultRef = useRef(resolveDefault);
+  resolveDefaultRef.current = resolveDefault;
+  const versioningRef = useRef(versioning);
+  versioningRef.current = versioning;
+
   const [widgetState, _setWidgetState] = useState<T | null>(() => {
     if (widgetStateFromWindow != null) {
-      return widgetStateFromWindow;
+      if (!versioning) {
+        return widgetStateFromWindow;
+      }
+      const hydrated = hydrateWidgetState(widgetStateFromWindow, versioning);
+      if (hydrated != null) {
+        return hydrated;
+      }
     }
 
-    return typeof defaultState === "function"
-      ? defaultState()
-      : defaultState ?? null;
+    return resolveDefault();
   });
 
   useEffect(() => {
-    _setWidgetState(widgetStateFromWindow);
+    const versioning = versioningRef.current;
+    if (!versioning || widgetStateFromWindow == null) {
+      _setWidgetState(widgetStateFromWindow);
+      return;
+    }
+    _setWidgetState(
+      hydrateWidgetState(widgetStateFromWindow, versioning) ??
+        resolveDefaultRef.current()
+    );
   }, [widgetStateFromWindow]);
 
+  const version = versioning?.version;
   const setWidgetState = useCallback(
     (state: SetStateAction<T | null>) => {
       _setWidgetState((prevState) => {
         const newState = typeof state === "function" ? state(prevState) : state;
 
         if (newState != null && typeof window !== "undefined") {
-          void window.openai?.setWidgetState?.(newState);
+          void window.openai?.setWidgetState?.(
+            version === undefined
+              ? newState
+              : { ...newState, [WIDGET_STATE_VERSION_KEY]: version }
+          );
         }
 
         return newState;
       });
     },
-    []
+    [version]
   );
 
   return [widgetState, setWidgetState] as const;
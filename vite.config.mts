@@ -3,12 +3,15 @@ import react from "@vitejs/plugin-react";
 import fg from "fast-glob";
 import path from "node:path";
 import fs from "node:fs";
+import type { ServerResponse } from "node:http";
 import tailwindcss from "@tailwindcss/vite";
+import { discoverWidgets, type WidgetMetadata } from "./widget-metadata.mts";
+
+const widgets = discoverWidgets();
 
 function buildInputs() {
-  const files = fg.sync("src/**/index.{tsx,jsx}", { dot: false });
   return Object.fromEntries(
-    files.map((f) => [path.basename(path.dirname(f)), path.resolve(f)])
+    widgets.map(({ name, entry }) => [name, path.resolve(entry)])
   );
 }
 
@@ -23,12 +26,14 @@ const toServerRoot = (abs: string) => {
 
 function multiEntryDevEndpoints(options: {
   entries: Record<string, string>;
+  metadata: Record<string, WidgetMetadata>;
   globalCss?: string[];
   perEntryCssGlob?: string;
   perEntryCssIgnore?: string[];
 }): Plugin {
   const {
     entries,
+    metadata,
     globalCss = ["src/index.css"],
     perEntryCssGlob = "**/*.{css,pcss,scss,sass}",
     perEntryCssIgnore = ["**/*.module.*"],
@@ -36,9 +41,99 @@ function multiEntryDevEndpoints(options: {
 
   const V_PREFIX = "\0multi-entry:"; // Rollup “virtual module” prefix
 
-  const HIDE_FROM_HOME = new Set(["flashcards", "daw"]);
+  // src/<widget>/fixtures/<fixture>.json, re-read on every request so edits
+  // show up on reload.
+  const fixturesDir = (name: string) =>
+    path.join(path.dirname(entries[name]), "fixtures");
+
+  const listFixtures = (name: string): string[] => {
+    const dir = fixturesDir(name);
+    if (!fs.existsSync(dir)) return [];
+    return fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .toSorted();
+  };
+
+  const fixtureFile = (name: string, fixture: string): string | null =>
+    listFixtures(name).includes(fixture)
+      ? path.join(fixturesDir(name), `${fixture}.json`)
+      : null;
+
+  const readFixtureData = (file: string): Record<string, unknown> => {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Invalid fixture ${path.relative(process.cwd(), file)}: ${message}`
+      );
+    }
+  };
+
+  const escapeHtml = (value: string) =>
+    value.replace(
+      /[&<>"]/g,
+      (char) =>
+        ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!
+    );
+
+  // One frame per display mode, sized like the host renders it.
+  const GALLERY_MODES = [
+    { displayMode: "inline", width: 420, maxHeight: 480 },
+    { displayMode: "pip", width: 360, maxHeight: 360 },
+    { displayMode: "fullscreen", width: 768, maxHeight: 720 },
+  ] as const;
+  const GALLERY_THEMES = ["light", "dark"] as const;
+
+  const renderGalleryRow = (name: string, fixture: string | null): string => {
+    let heading = "No fixture";
+    if (fixture !== null) {
+      let description: unknown;
+      try {
+        description = readFixtureData(fixtureFile(name, fixture)!).description;
+      } catch {
+        description = "(invalid JSON)";
+      }
+      heading = `<a href="/${name}.html?fixture=${fixture}">${fixture}</a>${
+        typeof description === "string"
+          ? ` <span class="muted">${escapeHtml(description)}</span>`
+          : ""
+      }`;
+    }
+
+    const frames = GALLERY_THEMES.flatMap((theme) =>
+      GALLERY_MODES.map(({ displayMode, width, maxHeight }) => {
+        const query = new URLSearchParams({
+          ...(fixture !== null ? { fixture } : {}),
+          theme,
+          displayMode,
+          maxHeight: String(maxHeight),
+        });
+        return `<figure class="frame ${theme}">
+          <figcaption>${displayMode} · ${theme} · ${width}×${maxHeight}</figcaption>
+          <iframe src="/${name}.html?${query}" loading="lazy" title="${name} ${displayMode} ${theme}" style="width: ${width}px; height: ${maxHeight}px"></iframe>
+        </figure>`;
+      })
+    );
+
+    return `<h3>${heading}</h3>
+      <div class="frames">
+        ${frames.join("\n        ")}
+      </div>`;
+  };
+
+  const renderIndexHtml = (
+    names: string[],
+    only: string | null
+  ): string => {
+    const visible = names
+      .filter((n) => metadata[n]?.visibility !== "hidden")
+      .toSorted();
+    const shown = only ? visible.filter((n) => n === only) : visible;
 
-  const renderIndexHtml = (names: string[]): string => `<!doctype html>
+    return `<!doctype html>
 <html>
 <head>
   <meta charset="utf-8" />
@@ -46,32 +141,64 @@ function multiEntryDevEndpoints(options: {
   <style>
     body { font: 15px/1.5 system-ui, sans-serif; margin: 32px; color: #1f2933; }
     h1 { font-size: 20px; margin-bottom: 12px; }
-    ul { padding-left: 18px; }
-    li { margin-bottom: 6px; }
+    h2 { font-size: 17px; margin: 32px 0 4px; }
+    h3 { font-size: 14px; font-weight: 500; margin: 16px 0 8px; }
+    nav { display: flex; flex-wrap: wrap; gap: 6px 16px; }
     a { color: #2563eb; text-decoration: none; }
     a:hover { text-decoration: underline; }
     code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 13px; margin-left: 6px; color: #64748b; }
+    .muted { color: #64748b; }
+    .frames { display: flex; flex-wrap: wrap; align-items: flex-start; gap: 16px; }
+    .frame { flex: none; margin: 0; padding: 12px; border-radius: 12px; background: #f4f4f5; }
+    .frame.dark { background: #212121; color: #d4d4d8; }
+    .frame figcaption { font-size: 12px; margin-bottom: 8px; }
+    .frame iframe { display: block; border: 0; border-radius: 8px; background: transparent; }
   </style>
 </head>
 <body>
   <h1>Examples</h1>
-  <ul>
-    ${names
-      .filter((n) => !HIDE_FROM_HOME.has(n))
-      .toSorted()
+  <nav>
+    ${visible
       .map(
         (name) =>
-          `<li><a href="/${name}.html">${name}</a><code>/${name}.html</code></li>`
+          `<a href="/?widget=${name}">${escapeHtml(metadata[name]?.title ?? name)}</a>`
       )
       .join("\n    ")}
-  </ul>
+    ${only ? `<a href="/">Show all</a>` : ""}
+  </nav>
+  ${shown
+    .map((name) => {
+      const fixtures = listFixtures(name);
+      return `<section id="${name}">
+    <h2>${escapeHtml(metadata[name]?.title ?? name)}<code><a href="/${name}.html">/${name}.html</a></code></h2>
+    ${(fixtures.length > 0 ? fixtures : [null])
+      .map((fixture) => renderGalleryRow(name, fixture))
+      .join("\n    ")}
+  </section>`;
+    })
+    .join("\n  ")}
 </body>
 </html>`;
+  };
+
+  // Installs the window.openai stub before the widget entry runs; module
+  // scripts execute in document order.
+  const renderFixtureScript = (fixture: string, data: unknown): string => {
+    const json = JSON.stringify(data).replace(/</g, "\\u003c");
+    return `<script type="module">
+    import { installFixture } from "/host/fixture-stub.ts";
+    installFixture(${JSON.stringify(fixture)}, ${json});
+  </script>
+  `;
+  };
 
-  const renderDevHtml = (name: string): string => `<!doctype html>
+  const renderDevHtml = (
+    name: string,
+    fixture?: { name: string; data: unknown }
+  ): string => `<!doctype html>
 <html>
 <head>
-  <script type="module" src="/${name}.js"></script>
+  ${fixture ? renderFixtureScript(fixture.name, fixture.data) : ""}<script type="module" src="/${name}.js"></script>
   <link rel="stylesheet" href="/${name}.css">
   </head>
 <body>
@@ -88,22 +215,90 @@ function multiEntryDevEndpoints(options: {
         .join("\n  ");
       server.config.logger.info(`\nDev endpoints:\n  ${list}\n`);
 
+      // Renders a widget page. ?fixture= and the theme/displayMode/maxHeight
+      // overrides install a window.openai stub.
+      const sendWidget = (
+        res: ServerResponse,
+        name: string,
+        query: URLSearchParams
+      ) => {
+        const sendText = (status: number, text: string) => {
+          res.statusCode = status;
+          res.setHeader("Content-Type", "text/plain; charset=utf-8");
+          res.end(text);
+        };
+
+        const fixture = query.get("fixture");
+        const overrides: Record<string, unknown> = {};
+        const theme = query.get("theme");
+        if (theme !== null) {
+          if (!GALLERY_THEMES.some((t) => t === theme)) {
+            return sendText(400, `Unknown theme "${theme}"`);
+          }
+          overrides.theme = theme;
+        }
+        const displayMode = query.get("displayMode");
+        if (displayMode !== null) {
+          if (!GALLERY_MODES.some((m) => m.displayMode === displayMode)) {
+            return sendText(400, `Unknown displayMode "${displayMode}"`);
+          }
+          overrides.displayMode = displayMode;
+        }
+        const maxHeight = query.get("maxHeight");
+        if (maxHeight !== null) {
+          if (!/^\d+$/.test(maxHeight)) {
+            return sendText(400, `maxHeight must be a number of pixels`);
+          }
+          overrides.maxHeight = Number(maxHeight);
+        }
+
+        if (fixture === null && Object.keys(overrides).length === 0) {
+          res.setHeader("Content-Type", "text/html; charset=utf-8");
+          res.end(renderDevHtml(name));
+          return;
+        }
+
+        let data: Record<string, unknown> = {};
+        if (fixture !== null) {
+          const file = fixtureFile(name, fixture);
+          if (file === null) {
+            const available = listFixtures(name);
+            return sendText(
+              404,
+              `Unknown fixture "${fixture}" for ${name}. Available: ${
+                available.length > 0 ? available.join(", ") : "(none)"
+              }`
+            );
+          }
+          try {
+            data = readFixtureData(file);
+          } catch (error) {
+            return sendText(500, (error as Error).message);
+          }
+        }
+        data = {
+          ...data,
+          globals: { ...(data.globals as object | undefined), ...overrides },
+        };
+
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.end(renderDevHtml(name, { name: fixture ?? "(none)", data }));
+      };
+
       server.middlewares.use((req, res, next) => {
         try {
           if (req.method !== "GET" || !req.url) return next();
-          const url = req.url.split("?")[0];
+          const [url, query = ""] = req.url.split("?");
+          const params = new URLSearchParams(query);
           if (url === "/" || url === "" || url === "/index.html") {
-            const html = renderIndexHtml(names);
+            const html = renderIndexHtml(names, params.get("widget"));
             res.setHeader("Content-Type", "text/html; charset=utf-8");
             res.end(html);
             return;
           }
           const bareMatch = url.match(/^\/?([\w-]+)\/?$/);
           if (bareMatch && entries[bareMatch[1]]) {
-            const name = bareMatch[1];
-            const html = renderDevHtml(name);
-            res.setHeader("Content-Type", "text/html; charset=utf-8");
-            res.end(html);
+            sendWidget(res, bareMatch[1], params);
             return;
           }
 
@@ -114,9 +309,7 @@ function multiEntryDevEndpoints(options: {
           const name = m[1];
           if (!entries[name]) return next();
 
-          const html = renderDevHtml(name);
-          res.setHeader("Content-Type", "text/html");
-          res.end(html);
+          sendWidget(res, name, params);
           return;
         } catch {
           // fall through
@@ -205,7 +398,12 @@ export default defineConfig(({}) => ({
   plugins: [
     tailwindcss(),
     react(),
-    multiEntryDevEndpoints({ entries: inputs }),
+    multiEntryDevEndpoints({
+      entries: inputs,
+      metadata: Object.fromEntries(
+        widgets.map(({ name, metadata }) => [name, metadata])
+      ),
+    }),
   ],
   cacheDir: "node_modules/.vite-react",
   server: {
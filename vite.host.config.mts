@@ -1,6 +1,51 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import path from "node:path";
+import fs from "node:fs";
+
+const ASSETS_DIR = path.resolve("assets");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".webp": "image/webp",
+  ".woff2": "font/woff2",
+};
+
+// Serves the built widgets (`pnpm run build`) under /assets so the emulator
+// can embed them without running `pnpm run serve`.
+function builtAssets(): Plugin {
+  return {
+    name: "host-built-assets",
+    configureServer(server) {
+      server.middlewares.use("/assets", (req, res, next) => {
+        const url = decodeURIComponent((req.url ?? "/").split("?")[0]);
+        const file = path.join(ASSETS_DIR, path.normalize(url));
+
+        if (
+          !file.startsWith(ASSETS_DIR + path.sep) ||
+          !fs.statSync(file, { throwIfNoEntry: false })?.isFile()
+        ) {
+          return next();
+        }
+
+        res.setHeader(
+          "Content-Type",
+          CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream"
+        );
+        res.setHeader("Cache-Control", "no-cache");
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+  };
+}
 
 export default defineConfig({
   root: "host",
@@ -14,5 +59,5 @@ export default defineConfig({
       },
     },
   },
-  plugins: [tailwindcss(), react()],
+  plugins: [tailwindcss(), react(), builtAssets()],
 });
@@ -0,0 +1,32 @@
+import fg from "fast-glob";
+import path from "node:path";
+import {
+  parseWidgetMetadataFile,
+  type WidgetMetadata,
+} from "widget-server-node/metadata";
+
+// The widget.json schema lives in the Node toolkit, which validates the same
+// files when a server starts.
+export type { WidgetMetadata };
+
+export type DiscoveredWidget = {
+  name: string;
+  /** Entry module, relative to the repo root (e.g. "src/todo/index.jsx"). */
+  entry: string;
+  metadata: WidgetMetadata;
+};
+
+export const WIDGET_METADATA_GLOB = "src/*/widget.json";
+
+export function discoverWidgets(): DiscoveredWidget[] {
+  return fg.sync(WIDGET_METADATA_GLOB).map((file) => {
+    const dir = path.dirname(file);
+    const [entry] = fg.sync(`${dir}/index.{tsx,jsx}`);
+    if (!entry) {
+      throw new Error(`${file} has no index.tsx or index.jsx next to it`);
+    }
+
+    const metadata = parseWidgetMetadataFile(file);
+    return { name: metadata.name, entry, metadata };
+  });
+}
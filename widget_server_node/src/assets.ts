@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, "..", "..");
+
+export const ASSETS_DIR = path.resolve(ROOT_DIR, "assets");
+
+const MANIFEST_FILE = "manifest.json";
+
+export const MANIFEST_PATH = path.join(ASSETS_DIR, MANIFEST_FILE);
+
+export type ManifestFile = {
+  /** File name relative to ASSETS_DIR. */
+  path: string;
+  /** sha256 of the file contents, hex encoded. */
+  hash: string;
+  size: number;
+};
+
+/** Shape of assets/manifest.json written by build-all.mts. */
+export type BuildManifest = {
+  buildTime: string;
+  gitSha: string | null;
+  baseUrl: string;
+  /** True when JS and CSS are inlined into the HTML (`build:inline`). */
+  inline: boolean;
+  widgets: Record<
+    string,
+    { html: ManifestFile; js: ManifestFile; css: ManifestFile | null }
+  >;
+};
+
+export function readBuildManifest(): BuildManifest {
+  if (!fs.existsSync(MANIFEST_PATH)) {
+    throw new Error(
+      `Build manifest not found at ${MANIFEST_PATH}. Run "pnpm run build" before starting the server.`
+    );
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8")) as BuildManifest;
+  } catch (error) {
+    throw new Error(
+      `Build manifest at ${MANIFEST_PATH} is not valid JSON. Re-run "pnpm run build".`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Origin the widget HTML loads its JS and CSS from, or null for an inline
+ * build, which needs no asset host.
+ */
+export function assetOrigin(manifest: BuildManifest): string | null {
+  if (manifest.inline) {
+    return null;
+  }
+
+  try {
+    return new URL(manifest.baseUrl).origin;
+  } catch {
+    return null;
+  }
+}
+
+export function readWidgetHtml(componentName: string): string {
+  const manifest = readBuildManifest();
+  const entry = manifest.widgets[componentName];
+
+  if (!entry) {
+    const available = Object.keys(manifest.widgets).sort().join(", ");
+    throw new Error(
+      `Widget "${componentName}" is not in the build manifest (${MANIFEST_PATH}, built ${manifest.buildTime}${
+        manifest.gitSha ? ` from ${manifest.gitSha.slice(0, 7)}` : ""
+      }). Available widgets: ${available || "none"}. Run "pnpm run build" to include it.`
+    );
+  }
+
+  const htmlPath = path.join(ASSETS_DIR, entry.html.path);
+
+  if (!fs.existsSync(htmlPath)) {
+    throw new Error(
+      `Build manifest lists ${entry.html.path} for widget "${componentName}", but ${htmlPath} does not exist. Re-run "pnpm run build".`
+    );
+  }
+
+  return fs.readFileSync(htmlPath, "utf8");
+}
+
+/**
+ * Calls `onChange` (debounced) whenever the build manifest is written. The
+ * build writes it last, so mid-build changes to other files are ignored. The
+ * build deletes and recreates the directory, so the watcher re-arms itself
+ * once the directory reappears. Returns a function that stops watching.
+ */
+export function watchAssets(onChange: () => void, debounceMs = 500) {
+  let watcher: fs.FSWatcher | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const scheduleChange = () => {
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      // A deleted manifest means a build has just started; wait for the new one.
+      if (fs.existsSync(MANIFEST_PATH)) {
+        onChange();
+      }
+    }, debounceMs);
+    debounceTimer.unref();
+  };
+
+  const rearm = () => {
+    watcher?.close();
+    watcher = null;
+    if (!stopped) {
+      retryTimer = setTimeout(arm, 1000);
+      retryTimer.unref();
+    }
+  };
+
+  const arm = () => {
+    if (!fs.existsSync(ASSETS_DIR)) {
+      rearm();
+      return;
+    }
+
+    watcher = fs.watch(ASSETS_DIR, (_event, filename) => {
+      // Some platforms omit the file name; reload then to be safe.
+      if (!filename || filename === MANIFEST_FILE) {
+        scheduleChange();
+      }
+      if (!fs.existsSync(ASSETS_DIR)) {
+        rearm();
+      }
+    });
+    watcher.on("error", rearm);
+    watcher.unref();
+    // Catch a manifest written while the directory was not being watched.
+    scheduleChange();
+  };
+
+  arm();
+
+  return () => {
+    stopped = true;
+    clearTimeout(debounceTimer);
+    clearTimeout(retryTimer);
+    watcher?.close();
+  };
+}
@@ -0,0 +1,9 @@
+/** A non-negative number from the environment, or undefined when unset or invalid. */
+export function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,67 @@
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+type StoredEvent = {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+};
+
+/**
+ * Keeps the most recent Streamable HTTP events in memory so clients can
+ * resume a dropped stream with `Last-Event-ID`. One store is created per
+ * session, so its events go away with the session.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly events: StoredEvent[] = [];
+  private nextEventId = 0;
+
+  constructor(private readonly maxEvents = 1000) {}
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): Promise<EventId> {
+    const eventId = String(this.nextEventId++);
+    this.events.push({ eventId, streamId, message });
+
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex(
+      (event) => event.eventId === lastEventId
+    );
+
+    if (index === -1) {
+      throw new Error(`Unknown or expired event id: ${lastEventId}`);
+    }
+
+    const { streamId } = this.events[index];
+
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
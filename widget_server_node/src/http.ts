@@ -0,0 +1,474 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { URL } from "node:url";
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { readNumberEnv } from "./env.js";
+import { InMemoryEventStore } from "./event-store.js";
+import { logger } from "./log.js";
+import {
+  createSessionRegistry,
+  newSessionActivity,
+  resolveSessionOptions,
+  trackSessionActivity,
+  type SessionOptions,
+  type SessionRecord,
+} from "./sessions.js";
+
+export type HttpServerOptions = {
+  label: string;
+  port: number;
+  createServer: () => Server;
+  /** Overrides for the MCP_SESSION_* / MCP_MAX_SESSIONS env defaults. */
+  sessions?: Partial<SessionOptions>;
+  /** Largest accepted POST body; overrides MCP_MAX_BODY_BYTES. */
+  maxBodyBytes?: number;
+};
+
+// `/mcp` serves both transports: Streamable HTTP requests carry an
+// `Mcp-Session-Id` header (or are a POST), legacy SSE clients open a bare GET
+// and post to `/mcp/messages`.
+const mcpPath = "/mcp";
+const postPath = "/mcp/messages";
+const adminSessionsPath = "/admin/sessions";
+
+const SESSION_ID_HEADER = "mcp-session-id";
+
+// Matches the limit the SDK's SSE transport applies when it reads a body itself.
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "content-type, mcp-session-id, mcp-protocol-version, last-event-id",
+  "Access-Control-Expose-Headers": "mcp-session-id",
+};
+
+export function resolvePort(fallback: number): number {
+  const portEnv = Number(process.env.PORT ?? fallback);
+  return Number.isFinite(portEnv) ? portEnv : fallback;
+}
+
+function writeJsonRpcError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+class BodyTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Request body exceeds ${maxBytes} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+/**
+ * Buffers and parses a JSON body, rejecting with BodyTooLargeError once it
+ * passes `maxBytes`. The rest of an oversized body is drained, not stored, so
+ * the 413 response can still be written.
+ */
+function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.resume();
+      reject(new BodyTooLargeError(maxBytes));
+    };
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        tooLarge();
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    const onEnd = () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      tooLarge();
+      return;
+    }
+
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", reject);
+  });
+}
+
+function isAdminAuthorized(req: IncomingMessage, token: string) {
+  return req.headers.authorization === `Bearer ${token}`;
+}
+
+export function startHttpServer(options: HttpServerOptions) {
+  const sessionOptions = resolveSessionOptions(options.sessions);
+  const sessions = createSessionRegistry(sessionOptions);
+  const adminToken = process.env.MCP_ADMIN_TOKEN?.trim() || null;
+  const maxBodyBytes =
+    options.maxBodyBytes ??
+    readNumberEnv("MCP_MAX_BODY_BYTES") ??
+    DEFAULT_MAX_BODY_BYTES;
+
+  sessions.startIdleSweep();
+
+  async function handleSseRequest(res: ServerResponse) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+
+    const releaseSlot = sessions.reserve();
+    if (!releaseSlot) {
+      res
+        .writeHead(503, { "Retry-After": "30" })
+        .end(`Too many active sessions (max ${sessionOptions.maxSessions})`);
+      return;
+    }
+
+    const server = options.createServer();
+    const transport = new SSEServerTransport(postPath, res);
+    const sessionId = transport.sessionId;
+    const record: SessionRecord = {
+      kind: "sse",
+      server,
+      transport,
+      ...newSessionActivity(),
+    };
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+    sessions.set(sessionId, record);
+    releaseSlot();
+
+    // The server detaches itself when its transport closes; calling
+    // server.close() here would re-enter this handler.
+    transport.onclose = () => {
+      clearInterval(heartbeat);
+      sessions.delete(sessionId);
+    };
+
+    transport.onerror = (error) => {
+      logger.error("SSE transport error", error);
+    };
+
+    try {
+      await server.connect(transport);
+      trackSessionActivity(record);
+
+      if (sessionOptions.heartbeatIntervalMs > 0) {
+        // SSE comment lines keep proxies from dropping an idle stream.
+        heartbeat = setInterval(() => {
+          res.write(": heartbeat\n\n");
+        }, sessionOptions.heartbeatIntervalMs);
+        heartbeat.unref();
+      }
+    } catch (error) {
+      clearInterval(heartbeat);
+      sessions.delete(sessionId);
+      logger.error("Failed to start SSE session", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end("Failed to establish SSE connection");
+      }
+      await server.close().catch((closeError) => {
+        logger.error("Failed to close abandoned SSE session", closeError);
+      });
+    }
+  }
+
+  async function handlePostMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "content-type");
+    const sessionId = url.searchParams.get("sessionId");
+
+    if (!sessionId) {
+      res.writeHead(400).end("Missing sessionId query parameter");
+      return;
+    }
+
+    const session = sessions.get(sessionId);
+
+    if (!session || session.kind !== "sse") {
+      res.writeHead(404).end("Unknown session");
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req, maxBodyBytes);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        res.writeHead(413, { Connection: "close" }).end(error.message);
+      } else {
+        res.writeHead(400).end("Invalid JSON body");
+      }
+      return;
+    }
+
+    try {
+      await session.transport.handlePostMessage(req, res, body);
+    } catch (error) {
+      logger.error("Failed to process message", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end("Failed to process message");
+      }
+    }
+  }
+
+  async function startStreamableSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ) {
+    // Held until the session registers itself, so concurrent initialize
+    // requests cannot all pass the limit.
+    const releaseSlot = sessions.reserve();
+    if (!releaseSlot) {
+      res.setHeader("Retry-After", "30");
+      writeJsonRpcError(
+        res,
+        503,
+        `Too many active sessions (max ${sessionOptions.maxSessions})`
+      );
+      return;
+    }
+
+    const server = options.createServer();
+    let initialized = false;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      keepAliveMs: sessionOptions.heartbeatIntervalMs,
+      onsessioninitialized: (sessionId) => {
+        initialized = true;
+        sessions.set(sessionId, record);
+        releaseSlot();
+      },
+    });
+    const record: SessionRecord = {
+      kind: "streamable-http",
+      server,
+      transport,
+      ...newSessionActivity(),
+    };
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    transport.onerror = (error) => {
+      logger.error("Streamable HTTP transport error", error);
+    };
+
+    let failed = false;
+    try {
+      await server.connect(transport);
+      trackSessionActivity(record);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      failed = true;
+      logger.error("Failed to start Streamable HTTP session", error);
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, "Failed to establish session");
+      }
+    } finally {
+      // No-op once the session registered; frees the slot if it never did.
+      releaseSlot();
+      if (failed || !initialized) {
+        // Also closes the transport, which unregisters the session and
+        // detaches the server from live reload notifications.
+        await server.close().catch((error) => {
+          logger.error("Failed to close abandoned Streamable HTTP session", error);
+        });
+      }
+    }
+  }
+
+  async function handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ) {
+    Object.entries(corsHeaders).forEach(([name, value]) =>
+      res.setHeader(name, value)
+    );
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req, maxBodyBytes);
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
+          res.setHeader("Connection", "close");
+          writeJsonRpcError(res, 413, error.message);
+        } else {
+          writeJsonRpcError(res, 400, "Parse error: invalid JSON body");
+        }
+        return;
+      }
+    }
+
+    const sessionId = req.headers[SESSION_ID_HEADER];
+
+    if (typeof sessionId !== "string") {
+      if (req.method === "POST" && isInitializeRequest(body)) {
+        await startStreamableSession(req, res, body);
+        return;
+      }
+
+      writeJsonRpcError(res, 400, "Bad Request: missing Mcp-Session-Id header");
+      return;
+    }
+
+    const session = sessions.get(sessionId);
+
+    if (!session || session.kind !== "streamable-http") {
+      writeJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    try {
+      await session.transport.handleRequest(req, res, body);
+    } catch (error) {
+      logger.error("Failed to process Streamable HTTP request", error);
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, "Failed to process request");
+      }
+    }
+  }
+
+  async function handleAdminRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ) {
+    if (!adminToken) {
+      res.writeHead(404).end("Not Found");
+      return;
+    }
+
+    if (!isAdminAuthorized(req, adminToken)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end("Unauthorized");
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === adminSessionsPath) {
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ sessions: sessions.list() }, null, 2));
+      return;
+    }
+
+    const sessionId = url.pathname.slice(adminSessionsPath.length + 1);
+
+    if (req.method === "DELETE" && sessionId) {
+      const closed = await sessions.close(sessionId);
+      res.writeHead(closed ? 204 : 404).end();
+      return;
+    }
+
+    res.writeHead(405).end("Method Not Allowed");
+  }
+
+  const httpServer = createServer(
+    async (req: IncomingMessage, res: ServerResponse) => {
+      if (!req.url) {
+        res.writeHead(400).end("Missing URL");
+        return;
+      }
+
+      const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
+
+      if (
+        req.method === "OPTIONS" &&
+        (url.pathname === mcpPath || url.pathname === postPath)
+      ) {
+        res.writeHead(204, corsHeaders);
+        res.end();
+        return;
+      }
+
+      if (url.pathname === mcpPath) {
+        if (req.method === "GET" && !req.headers[SESSION_ID_HEADER]) {
+          await handleSseRequest(res);
+          return;
+        }
+
+        if (
+          req.method === "GET" ||
+          req.method === "POST" ||
+          req.method === "DELETE"
+        ) {
+          await handleStreamableRequest(req, res);
+          return;
+        }
+      }
+
+      if (req.method === "POST" && url.pathname === postPath) {
+        await handlePostMessage(req, res, url);
+        return;
+      }
+
+      if (
+        url.pathname === adminSessionsPath ||
+        url.pathname.startsWith(`${adminSessionsPath}/`)
+      ) {
+        await handleAdminRequest(req, res, url);
+        return;
+      }
+
+      res.writeHead(404).end("Not Found");
+    }
+  );
+
+  httpServer.on("clientError", (err: Error, socket) => {
+    logger.error("HTTP client error", err);
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+  });
+
+  httpServer.listen(options.port, () => {
+    const { label, port } = options;
+    logger.info(`${label} MCP server listening on http://localhost:${port}`);
+    logger.info(
+      `  Streamable HTTP endpoint: POST/GET/DELETE http://localhost:${port}${mcpPath}`
+    );
+    logger.info(`  SSE stream: GET http://localhost:${port}${mcpPath}`);
+    logger.info(
+      `  Message post endpoint: POST http://localhost:${port}${postPath}?sessionId=...`
+    );
+    if (adminToken) {
+      logger.info(
+        `  Session admin: GET/DELETE http://localhost:${port}${adminSessionsPath} (Bearer MCP_ADMIN_TOKEN)`
+      );
+    }
+  });
+
+  return httpServer;
+}
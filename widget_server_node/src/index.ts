@@ -0,0 +1,47 @@
+export {
+  ASSETS_DIR,
+  MANIFEST_PATH,
+  assetOrigin,
+  readBuildManifest,
+  readWidgetHtml,
+  watchAssets,
+  type BuildManifest,
+  type ManifestFile,
+} from "./assets.js";
+export { readNumberEnv } from "./env.js";
+export { resolvePort, startHttpServer } from "./http.js";
+export { logger, type Logger } from "./log.js";
+export {
+  WIDGETS_SRC_DIR,
+  parseWidgetMetadataFile,
+  readWidgetMetadata,
+  widgetMetadataSchema,
+  type WidgetMetadata,
+} from "./metadata.js";
+export {
+  resolveSessionOptions,
+  type SessionOptions,
+  type SessionSummary,
+} from "./sessions.js";
+export { isStdioMode, startStdioServer } from "./stdio.js";
+export {
+  createWidgetServer,
+  type WidgetServer,
+  type WidgetServerOptions,
+} from "./server.js";
+export {
+  WIDGET_MIME_TYPE,
+  defineTool,
+  defineWidget,
+  widgetDescriptorMeta,
+  widgetInvocationMeta,
+  type ToolAnnotations,
+  type ToolConfig,
+  type ToolDefinition,
+  type ToolInputSchema,
+  type ToolOutputSchema,
+  type ToolResult,
+  type WidgetConfig,
+  type WidgetDefinition,
+  type WidgetTemplate,
+} from "./widgets.js";
@@ -0,0 +1,29 @@
+/**
+ * Logging for the toolkit and the servers built on it. Informational output
+ * goes to stdout unless the server runs over stdio, where stdout carries the
+ * JSON-RPC stream and everything is written to stderr instead.
+ */
+export type Logger = {
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+};
+
+let infoToStderr = false;
+
+export const logger: Logger = {
+  info: (...args) => {
+    if (infoToStderr) {
+      console.error(...args);
+    } else {
+      console.log(...args);
+    }
+  },
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+/** Sends `logger.info` to stderr from now on. Called when stdio starts. */
+export function logInfoToStderr() {
+  infoToStderr = true;
+}
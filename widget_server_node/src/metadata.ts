@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const WIDGETS_SRC_DIR = path.resolve(__dirname, "..", "..", "src");
+
+/**
+ * `src/<widget>/widget.json`. Its presence marks a directory as a widget for
+ * the build, the dev server and the Node MCP servers, which all parse it with
+ * `parseWidgetMetadataFile` below.
+ */
+export const widgetMetadataSchema = z.object({
+  /** Asset name; must match the directory name. */
+  name: z.string().regex(/^[\w-]+$/),
+  title: z.string().min(1),
+  templateUri: z.string().startsWith("ui://"),
+  invoking: z.string(),
+  invoked: z.string(),
+  csp: z
+    .object({
+      connectDomains: z.array(z.string()).default([]),
+      resourceDomains: z.array(z.string()).default([]),
+    })
+    .default({ connectDomains: [], resourceDomains: [] }),
+  /** Hidden widgets are still built but left off the dev index page. */
+  visibility: z.enum(["public", "hidden"]).default("public"),
+});
+
+/** Contents of `src/<widget>/widget.json`. */
+export type WidgetMetadata = z.infer<typeof widgetMetadataSchema>;
+
+/**
+ * Reads and validates a widget.json. Throws if it is not valid JSON, does not
+ * match the schema, or names a widget other than its directory.
+ */
+export function parseWidgetMetadataFile(file: string): WidgetMetadata {
+  const dirName = path.basename(path.dirname(file));
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON`, { cause: error });
+  }
+
+  const parsed = widgetMetadataSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`${file} is invalid:\n${issues}`);
+  }
+  if (parsed.data.name !== dirName) {
+    throw new Error(
+      `${file} declares name "${parsed.data.name}", expected "${dirName}"`
+    );
+  }
+
+  return parsed.data;
+}
+
+export function readWidgetMetadata(component: string): WidgetMetadata {
+  const file = path.join(WIDGETS_SRC_DIR, component, "widget.json");
+
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `Widget "${component}" has no metadata at ${file}. Every widget directory needs a widget.json.`
+    );
+  }
+
+  return parseWidgetMetadataFile(file);
+}
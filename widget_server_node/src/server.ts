@@ -0,0 +1,322 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolRequest,
+  type ListResourceTemplatesRequest,
+  type ListResourcesRequest,
+  type ListToolsRequest,
+  type ReadResourceRequest,
+  type Resource,
+  type ResourceTemplate,
+  type SubscribeRequest,
+  type Tool,
+  type UnsubscribeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  assetOrigin,
+  readBuildManifest,
+  readWidgetHtml,
+  watchAssets,
+} from "./assets.js";
+import { startHttpServer } from "./http.js";
+import { logger } from "./log.js";
+import type { SessionOptions } from "./sessions.js";
+import { isStdioMode, startStdioServer } from "./stdio.js";
+import {
+  WIDGET_MIME_TYPE,
+  widgetDescriptorMeta,
+  widgetInvocationMeta,
+  type ToolDefinition,
+  type ToolInputSchema,
+  type ToolOutputSchema,
+  type WidgetTemplate,
+} from "./widgets.js";
+
+export type WidgetServerOptions = {
+  name: string;
+  version: string;
+  /** Human-readable name used in startup logs, e.g. "Pizzaz". */
+  label: string;
+  tools: ToolDefinition[];
+  sessions?: Partial<SessionOptions>;
+  /** Largest accepted POST body; overrides MCP_MAX_BODY_BYTES. */
+  maxBodyBytes?: number;
+  /**
+   * Watch the assets directory and swap in rebuilt widget HTML without a
+   * restart. Defaults to true.
+   */
+  liveReload?: boolean;
+};
+
+export type WidgetServer = {
+  /** Creates a fresh MCP server instance; one is needed per transport. */
+  createServer: () => Server;
+  listen: (port: number) => void;
+  listenStdio: () => Promise<void>;
+  /** Re-reads widget HTML from disk and notifies connected sessions. */
+  reloadTemplates: () => Promise<void>;
+  /** Serves over stdio when launched with `--stdio`, otherwise over HTTP. */
+  start: (port: number) => Promise<void>;
+};
+
+function toObjectSchema(
+  schema: ToolInputSchema | ToolOutputSchema
+): Tool["inputSchema"] {
+  const { required, ...rest } = schema;
+  return required ? { ...rest, required: [...required] } : rest;
+}
+
+export function createWidgetServer(options: WidgetServerOptions): WidgetServer {
+  const toolsByName = new Map<string, ToolDefinition>();
+  const templatesByUri = new Map<string, WidgetTemplate>();
+
+  options.tools.forEach((tool) => {
+    toolsByName.set(tool.name, tool);
+    if (tool.template) {
+      templatesByUri.set(tool.template.templateUri, tool.template);
+    }
+  });
+
+  const templates = [...templatesByUri.values()];
+  const htmlByUri = new Map(
+    templates.map((template) => [
+      template.templateUri,
+      readWidgetHtml(template.component),
+    ])
+  );
+
+  // Non-inline builds load JS and CSS from here, so the CSP must allow it.
+  let currentAssetOrigin = assetOrigin(readBuildManifest());
+
+  // Connected MCP servers and the resource URIs each one subscribed to.
+  const liveServers = new Map<Server, Set<string>>();
+
+  async function reloadTemplates() {
+    const changedUris: string[] = [];
+
+    let origin = currentAssetOrigin;
+    try {
+      origin = assetOrigin(readBuildManifest());
+    } catch (error) {
+      logger.error("Keeping the previous asset origin", error);
+    }
+    const originChanged = origin !== currentAssetOrigin;
+    currentAssetOrigin = origin;
+
+    templates.forEach((template) => {
+      let html: string;
+      try {
+        html = readWidgetHtml(template.component);
+      } catch (error) {
+        // Mid-build the HTML may not exist yet; keep serving the old markup.
+        logger.error(`Keeping cached HTML for "${template.component}"`, error);
+        return;
+      }
+
+      if (originChanged || html !== htmlByUri.get(template.templateUri)) {
+        htmlByUri.set(template.templateUri, html);
+        changedUris.push(template.templateUri);
+      }
+    });
+
+    if (changedUris.length === 0) {
+      return;
+    }
+
+    logger.info(`Reloaded widget HTML: ${changedUris.join(", ")}`);
+
+    for (const [server, subscriptions] of liveServers) {
+      try {
+        await server.sendResourceListChanged();
+        for (const uri of changedUris) {
+          if (subscriptions.has(uri)) {
+            await server.sendResourceUpdated({ uri });
+          }
+        }
+      } catch (error) {
+        logger.error("Failed to notify session of widget update", error);
+      }
+    }
+  }
+
+  const descriptorMeta = (template: WidgetTemplate) =>
+    widgetDescriptorMeta(template, currentAssetOrigin);
+
+  const listTools = (): Tool[] =>
+    options.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toObjectSchema(tool.inputSchema),
+      outputSchema: toObjectSchema(tool.outputSchema),
+      title: tool.title,
+      ...(tool.template ? { _meta: descriptorMeta(tool.template) } : {}),
+      annotations: tool.annotations,
+    }));
+
+  const listResources = (): Resource[] =>
+    templates.map((template) => ({
+      uri: template.templateUri,
+      name: template.name,
+      description: template.description,
+      mimeType: WIDGET_MIME_TYPE,
+      _meta: descriptorMeta(template),
+    }));
+
+  const listResourceTemplates = (): ResourceTemplate[] =>
+    templates.map((template) => ({
+      uriTemplate: template.templateUri,
+      name: template.name,
+      description: template.description,
+      mimeType: WIDGET_MIME_TYPE,
+      _meta: descriptorMeta(template),
+    }));
+
+  function createServer(): Server {
+    const server = new Server(
+      {
+        name: options.name,
+        version: options.version,
+      },
+      {
+        capabilities: {
+          resources: { subscribe: true, listChanged: true },
+          tools: {},
+        },
+      }
+    );
+
+    const subscriptions = new Set<string>();
+    liveServers.set(server, subscriptions);
+    server.onclose = () => {
+      liveServers.delete(server);
+    };
+
+    server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async (_request: ListResourcesRequest) => ({
+        resources: listResources(),
+      })
+    );
+
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request: ReadResourceRequest) => {
+        const template = templatesByUri.get(request.params.uri);
+
+        if (!template) {
+          throw new Error(`Unknown resource: ${request.params.uri}`);
+        }
+
+        return {
+          contents: [
+            {
+              uri: template.templateUri,
+              mimeType: WIDGET_MIME_TYPE,
+              text: htmlByUri.get(template.templateUri),
+              _meta: descriptorMeta(template),
+            },
+          ],
+        };
+      }
+    );
+
+    server.setRequestHandler(
+      SubscribeRequestSchema,
+      async (request: SubscribeRequest) => {
+        subscriptions.add(request.params.uri);
+        return {};
+      }
+    );
+
+    server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request: UnsubscribeRequest) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+      }
+    );
+
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async (_request: ListResourceTemplatesRequest) => ({
+        resourceTemplates: listResourceTemplates(),
+      })
+    );
+
+    server.setRequestHandler(
+      ListToolsRequestSchema,
+      async (_request: ListToolsRequest) => ({
+        tools: listTools(),
+      })
+    );
+
+    server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request: CallToolRequest) => {
+        const tool = toolsByName.get(request.params.name);
+
+        if (!tool) {
+          throw new Error(`Unknown tool: ${request.params.name}`);
+        }
+
+        const result = await tool.call(request.params.arguments);
+
+        if (!tool.template || result.isError) {
+          return result;
+        }
+
+        return {
+          ...result,
+          _meta: { ...widgetInvocationMeta(tool.template), ...result._meta },
+        };
+      }
+    );
+
+    return server;
+  }
+
+  function startLiveReload() {
+    if (options.liveReload ?? true) {
+      watchAssets(() => {
+        void reloadTemplates();
+      });
+    }
+  }
+
+  function listen(port: number) {
+    startLiveReload();
+    startHttpServer({
+      label: options.label,
+      port,
+      createServer,
+      sessions: options.sessions,
+      maxBodyBytes: options.maxBodyBytes,
+    });
+  }
+
+  async function listenStdio() {
+    startLiveReload();
+    await startStdioServer({ label: options.label, createServer });
+  }
+
+  return {
+    createServer,
+    listen,
+    listenStdio,
+    reloadTemplates,
+    start: async (port) => {
+      if (isStdioMode()) {
+        await listenStdio();
+      } else {
+        listen(port);
+      }
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+import { readNumberEnv } from "./env.js";
+import { logger } from "./log.js";
+
+export type SessionOptions = {
+  /** Sessions without an incoming message for this long are closed. */
+  idleTimeoutMs: number;
+  /** New sessions are rejected with 503 once this many are open. */
+  maxSessions: number;
+  /** Interval between SSE heartbeat comments; 0 disables them. */
+  heartbeatIntervalMs: number;
+};
+
+type SessionActivity = {
+  createdAt: number;
+  lastActivityAt: number;
+  messageCount: number;
+};
+
+export type SessionRecord = SessionActivity &
+  (
+    | {
+        kind: "sse";
+        server: Server;
+        transport: SSEServerTransport;
+      }
+    | {
+        kind: "streamable-http";
+        server: Server;
+        transport: StreamableHTTPServerTransport;
+      }
+  );
+
+export type SessionSummary = {
+  id: string;
+  transport: SessionRecord["kind"];
+  createdAt: string;
+  ageMs: number;
+  idleMs: number;
+  messageCount: number;
+};
+
+const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  maxSessions: 100,
+  heartbeatIntervalMs: 15 * 1000,
+};
+
+export function resolveSessionOptions(
+  overrides: Partial<SessionOptions> = {}
+): SessionOptions {
+  return {
+    idleTimeoutMs:
+      overrides.idleTimeoutMs ??
+      readNumberEnv("MCP_SESSION_IDLE_TIMEOUT_MS") ??
+      DEFAULT_SESSION_OPTIONS.idleTimeoutMs,
+    maxSessions:
+      overrides.maxSessions ??
+      readNumberEnv("MCP_MAX_SESSIONS") ??
+      DEFAULT_SESSION_OPTIONS.maxSessions,
+    heartbeatIntervalMs:
+      overrides.heartbeatIntervalMs ??
+      readNumberEnv("MCP_SSE_HEARTBEAT_MS") ??
+      DEFAULT_SESSION_OPTIONS.heartbeatIntervalMs,
+  };
+}
+
+export function newSessionActivity(): SessionActivity {
+  const now = Date.now();
+  return { createdAt: now, lastActivityAt: now, messageCount: 0 };
+}
+
+/**
+ * Counts incoming JSON-RPC messages on a connected transport. Must run after
+ * `server.connect`, which installs the handler being wrapped.
+ */
+export function trackSessionActivity(record: SessionRecord) {
+  const { transport } = record;
+  const onmessage = transport.onmessage;
+
+  transport.onmessage = (message, extra) => {
+    record.messageCount += 1;
+    record.lastActivityAt = Date.now();
+    onmessage?.(message, extra);
+  };
+}
+
+export function createSessionRegistry(options: SessionOptions) {
+  const sessions = new Map<string, SessionRecord>();
+  // Slots held by sessions that are still initializing and not yet in `sessions`.
+  let reserved = 0;
+
+  function summarize(id: string, record: SessionRecord): SessionSummary {
+    const now = Date.now();
+    return {
+      id,
+      transport: record.kind,
+      createdAt: new Date(record.createdAt).toISOString(),
+      ageMs: now - record.createdAt,
+      idleMs: now - record.lastActivityAt,
+      messageCount: record.messageCount,
+    };
+  }
+
+  async function close(id: string): Promise<boolean> {
+    const record = sessions.get(id);
+    if (!record) {
+      return false;
+    }
+    sessions.delete(id);
+    await record.transport.close();
+    return true;
+  }
+
+  function startIdleSweep() {
+    if (options.idleTimeoutMs <= 0) {
+      return () => {};
+    }
+
+    const interval = setInterval(
+      () => {
+        const cutoff = Date.now() - options.idleTimeoutMs;
+        for (const [id, record] of sessions) {
+          if (record.lastActivityAt < cutoff) {
+            logger.info(`Closing idle MCP session ${id}`);
+            close(id).catch((error) => {
+              logger.error("Failed to close idle session", error);
+            });
+          }
+        }
+      },
+      Math.min(options.idleTimeoutMs, 60 * 1000)
+    );
+    interval.unref();
+
+    return () => clearInterval(interval);
+  }
+
+  return {
+    get: (id: string) => sessions.get(id),
+    set: (id: string, record: SessionRecord) => {
+      sessions.set(id, record);
+    },
+    delete: (id: string) => {
+      sessions.delete(id);
+    },
+    /**
+     * Claims a slot for a new session, counted against `maxSessions` until it
+     * is released. Returns the release function, which is safe to call more
+     * than once, or null when every slot is taken. Release it once the session
+     * is registered with `set`, or when it fails to start.
+     */
+    reserve: (): (() => void) | null => {
+      if (sessions.size + reserved >= options.maxSessions) {
+        return null;
+      }
+      reserved += 1;
+      let released = false;
+      return () => {
+        if (!released) {
+          released = true;
+          reserved -= 1;
+        }
+      };
+    },
+    list: () =>
+      [...sessions].map(([id, record]) => summarize(id, record)),
+    close,
+    startIdleSweep,
+  };
+}
+
+export type SessionRegistry = ReturnType<typeof createSessionRegistry>;
@@ -0,0 +1,29 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+
+import { logInfoToStderr, logger } from "./log.js";
+
+export type StdioServerOptions = {
+  label: string;
+  createServer: () => Server;
+};
+
+export function isStdioMode(argv: string[] = process.argv): boolean {
+  return argv.includes("--stdio");
+}
+
+export async function startStdioServer(options: StdioServerOptions) {
+  logInfoToStderr();
+
+  const server = options.createServer();
+  const transport = new StdioServerTransport();
+
+  transport.onerror = (error) => {
+    logger.error("stdio transport error", error);
+  };
+
+  await server.connect(transport);
+  logger.info(`${options.label} MCP server running on stdio`);
+
+  return server;
+}
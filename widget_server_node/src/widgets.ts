@@ -0,0 +1,267 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  JsonSchemaType,
+  JsonSchemaValidator,
+} from "@modelcontextprotocol/sdk/validation";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+import { logger } from "./log.js";
+import { readWidgetMetadata } from "./metadata.js";
+
+export const WIDGET_MIME_TYPE = "text/html+skybridge";
+
+/**
+ * A Skybridge widget shell served as an MCP resource and referenced by tools
+ * through `_meta.openai/outputTemplate`.
+ */
+export type WidgetTemplate = {
+  /** Resource name advertised in ListResources / ListResourceTemplates. */
+  name: string;
+  description: string;
+  templateUri: string;
+  /** Asset name produced by build-all.mts, e.g. "pizzaz-carousel". */
+  component: string;
+  invoking: string;
+  invoked: string;
+  /** Origins the widget may fetch from / load assets from. */
+  csp: { connectDomains: string[]; resourceDomains: string[] };
+};
+
+/** JSON Schema object, as published in ListTools; accepts `as const` literals. */
+export type ToolInputSchema = {
+  type: "object";
+  properties?: Record<string, object>;
+  required?: readonly string[];
+  [key: string]: unknown;
+};
+
+/** JSON Schema for a tool's `structuredContent`. */
+export type ToolOutputSchema = ToolInputSchema;
+
+export type ToolAnnotations = {
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+  readOnlyHint?: boolean;
+};
+
+export type ToolResult = {
+  content: CallToolResult["content"];
+  structuredContent?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+export type ToolConfig<TArgs> = {
+  name: string;
+  title: string;
+  description: string;
+  /**
+   * Parses the tool arguments. Its JSON Schema (descriptions, enums, bounds
+   * and defaults included) is published as the tool's `inputSchema`.
+   */
+  parser: z.ZodType<TArgs, z.ZodTypeDef, unknown>;
+  /**
+   * Shape of `structuredContent`, advertised in ListTools. Successful results
+   * are validated against it before they are returned.
+   */
+  outputSchema: ToolOutputSchema;
+  /** Widget rendered by the host when this tool responds. */
+  template?: WidgetTemplate;
+  annotations?: ToolAnnotations;
+  handler: (args: TArgs) => ToolResult | Promise<ToolResult>;
+};
+
+export type ToolDefinition = Omit<
+  ToolConfig<unknown>,
+  "parser" | "handler" | "annotations"
+> & {
+  inputSchema: ToolInputSchema;
+  annotations: ToolAnnotations;
+  /** Parses raw tool arguments and runs the handler. */
+  call: (args: unknown) => Promise<ToolResult>;
+};
+
+export type WidgetConfig<TArgs> = Omit<
+  ToolConfig<TArgs>,
+  "name" | "description" | "template"
+> & {
+  id: string;
+  description?: string;
+  /** Directory under src/ holding the widget and its widget.json. */
+  component: string;
+  /** Defaults to the tool title. */
+  resourceName?: string;
+  resourceDescription?: string;
+};
+
+export type WidgetDefinition = ToolDefinition & { template: WidgetTemplate };
+
+// To disable the approval prompt for the widgets
+const DEFAULT_ANNOTATIONS: ToolAnnotations = {
+  destructiveHint: false,
+  openWorldHint: false,
+  readOnlyHint: true,
+};
+
+const outputValidator = new AjvJsonSchemaValidator();
+
+function outputSchemaError(toolName: string, details: string): ToolResult {
+  logger.error(`Tool "${toolName}" returned invalid structuredContent: ${details}`);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Tool "${toolName}" returned structuredContent that does not match its outputSchema: ${details}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Turns a successful result whose `structuredContent` is missing or does not
+ * match the tool's `outputSchema` into an error result.
+ */
+function checkOutput(
+  toolName: string,
+  validate: JsonSchemaValidator<Record<string, unknown>>,
+  result: ToolResult
+): ToolResult {
+  if (result.isError) {
+    return result;
+  }
+  if (result.structuredContent === undefined) {
+    return outputSchemaError(toolName, "no structuredContent was returned");
+  }
+
+  // Validate what the client receives: undefined members are dropped on the wire.
+  const { valid, errorMessage } = validate(
+    JSON.parse(JSON.stringify(result.structuredContent))
+  );
+  return valid ? result : outputSchemaError(toolName, errorMessage);
+}
+
+function invalidArgumentsError(toolName: string, error: z.ZodError): ToolResult {
+  const issues = error.issues
+    .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Invalid arguments for tool "${toolName}":\n${issues}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+function toInputSchema(
+  toolName: string,
+  parser: z.ZodType<unknown, z.ZodTypeDef, unknown>
+): ToolInputSchema {
+  const schema = zodToJsonSchema(parser, { $refStrategy: "none" }) as Record<
+    string,
+    unknown
+  >;
+  delete schema.$schema;
+
+  if (schema.type !== "object") {
+    throw new Error(`Tool "${toolName}" must parse its arguments with z.object()`);
+  }
+  return schema as ToolInputSchema;
+}
+
+export function defineTool<TArgs>(config: ToolConfig<TArgs>): ToolDefinition {
+  const { parser, handler, annotations, ...tool } = config;
+  const validateOutput = outputValidator.getValidator<Record<string, unknown>>(
+    tool.outputSchema as JsonSchemaType
+  );
+
+  return {
+    ...tool,
+    inputSchema: toInputSchema(tool.name, parser),
+    annotations: annotations ?? DEFAULT_ANNOTATIONS,
+    call: async (args) => {
+      const parsed = parser.safeParse(args ?? {});
+      if (!parsed.success) {
+        return invalidArgumentsError(tool.name, parsed.error);
+      }
+      return checkOutput(tool.name, validateOutput, await handler(parsed.data));
+    },
+  };
+}
+
+/**
+ * Declares a tool together with the widget template it renders. The template
+ * URI, invocation strings and CSP come from `src/<component>/widget.json`; the
+ * HTML is loaded from the built assets when the server is created.
+ */
+export function defineWidget<TArgs>(
+  config: WidgetConfig<TArgs>
+): WidgetDefinition {
+  const {
+    id,
+    description,
+    component,
+    resourceName,
+    resourceDescription,
+    ...tool
+  } = config;
+  const metadata = readWidgetMetadata(component);
+
+  const template: WidgetTemplate = {
+    name: resourceName ?? config.title,
+    description: resourceDescription ?? `${config.title} widget markup`,
+    templateUri: metadata.templateUri,
+    component,
+    invoking: metadata.invoking,
+    invoked: metadata.invoked,
+    csp: metadata.csp,
+  };
+
+  return {
+    ...defineTool({
+      ...tool,
+      name: id,
+      description: description ?? config.title,
+      template,
+    }),
+    template,
+  };
+}
+
+/**
+ * `assetOrigin` is the host serving the widget's JS and CSS (see
+ * `assetOrigin()` in assets.ts); it is added to the CSP resource domains.
+ */
+export function widgetDescriptorMeta(
+  template: WidgetTemplate,
+  assetOrigin: string | null = null
+) {
+  const resourceDomains = template.csp.resourceDomains;
+
+  return {
+    "openai/outputTemplate": template.templateUri,
+    "openai/toolInvocation/invoking": template.invoking,
+    "openai/toolInvocation/invoked": template.invoked,
+    "openai/widgetAccessible": true,
+    "openai/widgetCSP": {
+      connect_domains: template.csp.connectDomains,
+      resource_domains:
+        assetOrigin && !resourceDomains.includes(assetOrigin)
+          ? [assetOrigin, ...resourceDomains]
+          : resourceDomains,
+    },
+  } as const;
+}
+
+export function widgetInvocationMeta(template: WidgetTemplate) {
+  return {
+    "openai/toolInvocation/invoking": template.invoking,
+    "openai/toolInvocation/invoked": template.invoked,
+  } as const;
+}